@@ -13,17 +13,60 @@ import {
     getStreamableSessionCount,
 } from "./src/mcp/streamable-http.ts";
 import {
+    ConversionError,
+    type ConversionOptions,
+    convertHtml,
+    fetchMetadata,
     handleConversion,
+    parseHtmlRequest,
     parseFormOptions,
     parseQueryOptions,
     getCacheSize,
 } from "./src/core/conversion.ts";
+import {
+    getStats,
+    initStats,
+    loadConfiguredStrategies,
+    resetStats,
+} from "./src/strategies/mod.ts";
+import { initRules } from "./src/rules.ts";
+import {
+    cancelCrawl,
+    crawlToMarkdown,
+    getCrawl,
+    parseCrawlOptions,
+    startCrawl,
+} from "./src/crawl/mod.ts";
+import { parseStreamRequest, streamResults } from "./src/core/stream.ts";
+import { type ChunkOptions, chunkMarkdown, parseChunkOptions } from "./src/chunking.ts";
+import { feedToMarkdown, ingestFeed, parseFeedOptions } from "./src/feeds/mod.ts";
+import {
+    batchToNdjson,
+    batchToZip,
+    cancelBatch,
+    getBatch,
+    initBatches,
+    parseBatchOptions,
+    startBatch,
+} from "./src/batch/mod.ts";
 import {
     addCorsHeaders,
+    BodyTooLargeError,
     downloadHeaders,
     generateFilename,
+    readEnv,
+    readLimited,
 } from "./src/utils.ts";
 
+// Register in-house strategies before any MCP tool schema is built
+await loadConfiguredStrategies();
+await initRules();
+await initStats();
+await initBatches();
+
+// Largest HTML body accepted by POST /api/convert
+const CONVERT_MAX_BYTES = Number(readEnv("CONVERT_MAX_BYTES") || 10 * 1024 * 1024);
+
 // MCP Server instances per session
 const mcpServers = new Map<string, McpServer>();
 
@@ -37,6 +80,26 @@ function createMcpServerForSession(sessionId: string): McpServer {
     return server;
 }
 
+/**
+ * Start a streamed multi-URL conversion (GET with repeated url params, or POST JSON)
+ */
+async function handleStreamRequest(request: Request, url: URL): Promise<Response> {
+    try {
+        const streamRequest = await parseStreamRequest(request, url.searchParams);
+        const headers = addCorsHeaders(new Headers({
+            "content-type": streamRequest.format === "sse" ? "text/event-stream" : "application/x-ndjson",
+            "cache-control": "no-cache",
+        }));
+        return new Response(streamResults(streamRequest, request.signal), { headers });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return new Response(
+            JSON.stringify({ error: message }),
+            { status: 400, headers: addCorsHeaders(new Headers({ "content-type": "application/json" })) }
+        );
+    }
+}
+
 Deno.serve(async (request: Request) => {
     const url = new URL(request.url);
 
@@ -60,8 +123,15 @@ Deno.serve(async (request: Request) => {
                             "exa",
                             "mcp_sse",
                             "mcp_streamable_http",
+                            "pdf",
+                            "html_input",
+                            "crawl",
+                            "feeds",
+                            "batch",
+                            "streaming",
+                            "metadata",
                         ],
-                        cacheSize: getCacheSize(),
+                        cacheSize: await getCacheSize(),
                         mcpSessions: mcpServers.size,
                     }),
                     { headers: { "content-type": "application/json" } }
@@ -87,6 +157,140 @@ Deno.serve(async (request: Request) => {
                 return response;
             }
 
+            // Learned per-domain strategy statistics
+            if (url.pathname === "/api/stats") {
+                const domain = url.searchParams.get("domain") || undefined;
+                return new Response(
+                    JSON.stringify({ domains: getStats(domain) }, null, 2),
+                    { headers: addCorsHeaders(new Headers({ "content-type": "application/json" })) }
+                );
+            }
+
+            // Crawl job status: manifest, ?content=true adds page Markdown, ?format=markdown concatenates it
+            const crawlMatch = url.pathname.match(/^\/api\/crawl\/([\w-]+)$/);
+            if (crawlMatch) {
+                const id = crawlMatch[1];
+                if (url.searchParams.get("format") === "markdown") {
+                    const markdown = crawlToMarkdown(id);
+                    return markdown === undefined
+                        ? new Response("Crawl job not found", { status: 404, headers: addCorsHeaders(new Headers()) })
+                        : new Response(markdown, { headers: addCorsHeaders(new Headers({ "content-type": "text/plain; charset=utf-8" })) });
+                }
+
+                const manifest = getCrawl(id, url.searchParams.get("content") === "true");
+                return new Response(
+                    JSON.stringify(manifest ?? { error: "Crawl job not found" }, null, 2),
+                    {
+                        status: manifest ? 200 : 404,
+                        headers: addCorsHeaders(new Headers({ "content-type": "application/json" })),
+                    }
+                );
+            }
+
+            // Stream per-URL results as they finish (NDJSON, or SSE with stream=sse)
+            if (url.pathname === "/api/stream") {
+                return await handleStreamRequest(request, url);
+            }
+
+            // Batch job status: manifest, ?content=true adds finished Markdown, ?format=ndjson|zip downloads results
+            const batchMatch = url.pathname.match(/^\/api\/batch\/([\w-]+)$/);
+            if (batchMatch) {
+                const id = batchMatch[1];
+                const format = url.searchParams.get("format");
+                const notFound = () => new Response(
+                    JSON.stringify({ error: "Batch job not found" }),
+                    { status: 404, headers: addCorsHeaders(new Headers({ "content-type": "application/json" })) }
+                );
+
+                if (format === "ndjson") {
+                    const stream = await batchToNdjson(id);
+                    if (!stream) return notFound();
+                    const headers = addCorsHeaders(new Headers({ "content-type": "application/x-ndjson" }));
+                    headers.set("Content-Disposition", `attachment; filename="batch-${id}.ndjson"`);
+                    return new Response(stream, { headers });
+                }
+                if (format === "zip") {
+                    const zip = await batchToZip(id);
+                    if (!zip) return notFound();
+                    const headers = addCorsHeaders(new Headers({ "content-type": "application/zip" }));
+                    headers.set("Content-Disposition", `attachment; filename="batch-${id}.zip"`);
+                    return new Response(zip, { headers });
+                }
+
+                const manifest = await getBatch(id, url.searchParams.get("content") === "true");
+                if (!manifest) return notFound();
+                return new Response(
+                    JSON.stringify(manifest, null, 2),
+                    { headers: addCorsHeaders(new Headers({ "content-type": "application/json" })) }
+                );
+            }
+
+            // Sitemap / RSS / Atom ingestion: JSON with per-item metadata, or ?format=markdown
+            if (url.pathname === "/api/feed") {
+                try {
+                    const options = parseFeedOptions(url.searchParams);
+                    const result = await ingestFeed(options, request.signal);
+                    if (url.searchParams.get("format") === "markdown") {
+                        return new Response(feedToMarkdown(result), {
+                            headers: addCorsHeaders(new Headers({ "content-type": "text/plain; charset=utf-8" })),
+                        });
+                    }
+                    return new Response(
+                        JSON.stringify(result, null, 2),
+                        { headers: addCorsHeaders(new Headers({ "content-type": "application/json" })) }
+                    );
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error);
+                    return new Response(
+                        JSON.stringify({ error: message }),
+                        { status: 400, headers: addCorsHeaders(new Headers({ "content-type": "application/json" })) }
+                    );
+                }
+            }
+
+            // Page metadata only: normalized record with per-field sources, ?raw=true adds every source's values
+            if (url.pathname === "/api/metadata") {
+                const targetUrl = url.searchParams.get("url");
+                if (!targetUrl) {
+                    return new Response(
+                        JSON.stringify({ error: "Missing 'url' parameter" }),
+                        { status: 400, headers: addCorsHeaders(new Headers({ "content-type": "application/json" })) }
+                    );
+                }
+
+                let options: ConversionOptions;
+                try {
+                    options = parseQueryOptions(url.searchParams);
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error);
+                    return new Response(
+                        JSON.stringify({ error: message }),
+                        { status: 400, headers: addCorsHeaders(new Headers({ "content-type": "application/json" })) }
+                    );
+                }
+
+                try {
+                    const { raw, attempts, ...metadata } = await fetchMetadata(targetUrl, options, request.signal);
+                    return new Response(
+                        JSON.stringify({
+                            ...metadata,
+                            ...(url.searchParams.get("raw") === "true" ? { raw } : {}),
+                            ...(options.debug ? { attempts } : {}),
+                        }, null, 2),
+                        { headers: addCorsHeaders(new Headers({ "content-type": "application/json" })) }
+                    );
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error);
+                    const trace = options.debug && error instanceof ConversionError
+                        ? { rule: error.rule, attempts: error.attempts }
+                        : {};
+                    return new Response(
+                        JSON.stringify({ error: message, ...trace }),
+                        { status: 500, headers: addCorsHeaders(new Headers({ "content-type": "application/json" })) }
+                    );
+                }
+            }
+
             // Handle API GET requests with query params
             if (url.pathname === "/api" || url.pathname === "/api/") {
                 const targetUrl = url.searchParams.get("url");
@@ -97,20 +301,72 @@ Deno.serve(async (request: Request) => {
                     );
                 }
 
+                let options: ConversionOptions;
+                let chunking: ChunkOptions | undefined;
                 try {
-                    const options = parseQueryOptions(url.searchParams);
-                    const result = await handleConversion(targetUrl, options);
+                    options = parseQueryOptions(url.searchParams);
+                    chunking = url.searchParams.get("format") === "chunks" ? parseChunkOptions(url.searchParams) : undefined;
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error);
+                    return new Response(
+                        JSON.stringify({ error: message }),
+                        { status: 400, headers: addCorsHeaders(new Headers({ "content-type": "application/json" })) }
+                    );
+                }
+
+                try {
+                    const result = await handleConversion(targetUrl, options, request.signal);
+
+                    // Debug mode: JSON envelope with the attempt trace
+                    if (options.debug) {
+                        return new Response(
+                            JSON.stringify({
+                                url: targetUrl,
+                                strategy: result.strategy,
+                                elapsed: result.elapsed,
+                                fromCache: result.fromCache,
+                                stale: result.stale ?? false,
+                                rule: result.rule,
+                                pages: result.pages,
+                                attempts: result.attempts ?? [],
+                                contentType: result.contentType,
+                                content: result.content,
+                            }, null, 2),
+                            { headers: addCorsHeaders(new Headers({ "content-type": "application/json" })) }
+                        );
+                    }
+
+                    // Chunk mode: heading-aware chunks for RAG ingestion
+                    if (chunking) {
+                        return new Response(
+                            JSON.stringify({
+                                url: targetUrl,
+                                title: result.title,
+                                strategy: result.strategy,
+                                elapsed: result.elapsed,
+                                fromCache: result.fromCache,
+                                chunking,
+                                chunks: await chunkMarkdown(result.content, targetUrl, chunking),
+                            }, null, 2),
+                            { headers: addCorsHeaders(new Headers({ "content-type": "application/json" })) }
+                        );
+                    }
+
                     const headers = new Headers({ "content-type": result.contentType });
                     addCorsHeaders(headers);
                     headers.set("X-Strategy-Used", result.strategy);
                     headers.set("X-Elapsed-Ms", String(result.elapsed));
                     headers.set("X-From-Cache", String(result.fromCache));
+                    if (result.stale) headers.set("X-Cache-Stale", "true");
 
                     return new Response(result.content, { headers });
                 } catch (error) {
                     const message = error instanceof Error ? error.message : String(error);
+                    const trace = options.debug && error instanceof ConversionError
+                        ? { rule: error.rule, attempts: error.attempts }
+                        : {};
                     return new Response(
-                        JSON.stringify({ error: message }),
+                        JSON.stringify({ error: message, ...trace }),
                         { status: 500, headers: addCorsHeaders(new Headers({ "content-type": "application/json" })) }
                     );
                 }
@@ -170,6 +426,106 @@ Deno.serve(async (request: Request) => {
                 }
             }
 
+            // Start a crawl job
+            if (url.pathname === "/api/crawl") {
+                try {
+                    const options = parseCrawlOptions(await request.json());
+                    const manifest = startCrawl(options);
+                    return new Response(
+                        JSON.stringify({ ...manifest, statusUrl: `/api/crawl/${manifest.id}` }, null, 2),
+                        {
+                            status: 202,
+                            headers: addCorsHeaders(new Headers({
+                                "content-type": "application/json",
+                                "location": `/api/crawl/${manifest.id}`,
+                            })),
+                        }
+                    );
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error);
+                    return new Response(
+                        JSON.stringify({ error: message }),
+                        { status: 400, headers: addCorsHeaders(new Headers({ "content-type": "application/json" })) }
+                    );
+                }
+            }
+
+            // Stream per-URL results as they finish (NDJSON, or SSE with stream=sse)
+            if (url.pathname === "/api/stream") {
+                return await handleStreamRequest(request, url);
+            }
+
+            // Start a batch job
+            if (url.pathname === "/api/batch") {
+                try {
+                    const options = parseBatchOptions(await request.json());
+                    const manifest = await startBatch(options);
+                    return new Response(
+                        JSON.stringify({
+                            id: manifest.id,
+                            status: manifest.status,
+                            total: manifest.total,
+                            options: manifest.options,
+                            statusUrl: `/api/batch/${manifest.id}`,
+                        }, null, 2),
+                        {
+                            status: 202,
+                            headers: addCorsHeaders(new Headers({
+                                "content-type": "application/json",
+                                "location": `/api/batch/${manifest.id}`,
+                            })),
+                        }
+                    );
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error);
+                    return new Response(
+                        JSON.stringify({ error: message }),
+                        { status: 400, headers: addCorsHeaders(new Headers({ "content-type": "application/json" })) }
+                    );
+                }
+            }
+
+            // Convert HTML supplied by the caller (no fetch)
+            if (url.pathname === "/api/convert") {
+                const declared = Number(request.headers.get("content-length") || 0);
+                if (declared > CONVERT_MAX_BYTES) {
+                    return new Response(
+                        JSON.stringify({ error: `Body too large (limit ${CONVERT_MAX_BYTES} bytes)` }),
+                        { status: 413, headers: addCorsHeaders(new Headers({ "content-type": "application/json" })) }
+                    );
+                }
+
+                try {
+                    // Content-Length may be absent or understated, so the limit also applies while reading
+                    const body = await readLimited(request.body, CONVERT_MAX_BYTES);
+                    const { html, options } = await parseHtmlRequest(
+                        new Request(request.url, { method: request.method, headers: request.headers, body }),
+                        url.searchParams,
+                    );
+                    if (!html.trim()) {
+                        return new Response(
+                            JSON.stringify({ error: "Missing HTML body" }),
+                            { status: 400, headers: addCorsHeaders(new Headers({ "content-type": "application/json" })) }
+                        );
+                    }
+
+                    const result = convertHtml(html, options);
+                    const headers = new Headers({ "content-type": result.contentType });
+                    addCorsHeaders(headers);
+                    headers.set("X-Elapsed-Ms", String(result.elapsed));
+                    return new Response(result.content, { headers });
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error);
+                    return new Response(
+                        JSON.stringify({ error: message }),
+                        {
+                            status: error instanceof BodyTooLargeError ? 413 : 400,
+                            headers: addCorsHeaders(new Headers({ "content-type": "application/json" })),
+                        }
+                    );
+                }
+            }
+
             // Original form POST handling
             try {
                 const formData = await request.formData();
@@ -180,7 +536,7 @@ Deno.serve(async (request: Request) => {
                 }
 
                 const options = parseFormOptions(formData);
-                const result = await handleConversion(targetUrl, options);
+                const result = await handleConversion(targetUrl, options, request.signal);
 
                 const headers = new Headers();
                 addCorsHeaders(headers);
@@ -188,6 +544,7 @@ Deno.serve(async (request: Request) => {
                 headers.set("X-Strategy-Used", result.strategy);
                 headers.set("X-Elapsed-Ms", String(result.elapsed));
                 headers.set("X-From-Cache", String(result.fromCache));
+                if (result.stale) headers.set("X-Cache-Stale", "true");
 
                 if (options.download) {
                     const fileName = generateFilename(targetUrl, options.jsonFormat);
@@ -208,6 +565,46 @@ Deno.serve(async (request: Request) => {
             }
         }
 
+        case "DELETE": {
+            // Reset learned strategy statistics (all, or ?domain=)
+            if (url.pathname === "/api/stats") {
+                const domain = url.searchParams.get("domain") || undefined;
+                await resetStats(domain);
+                return new Response(
+                    JSON.stringify({ reset: domain || "all" }),
+                    { headers: addCorsHeaders(new Headers({ "content-type": "application/json" })) }
+                );
+            }
+
+            // Cancel a crawl job
+            const crawlMatch = url.pathname.match(/^\/api\/crawl\/([\w-]+)$/);
+            if (crawlMatch) {
+                const found = cancelCrawl(crawlMatch[1]);
+                return new Response(
+                    JSON.stringify(found ? getCrawl(crawlMatch[1]) : { error: "Crawl job not found" }, null, 2),
+                    {
+                        status: found ? 200 : 404,
+                        headers: addCorsHeaders(new Headers({ "content-type": "application/json" })),
+                    }
+                );
+            }
+
+            // Cancel a batch job
+            const batchMatch = url.pathname.match(/^\/api\/batch\/([\w-]+)$/);
+            if (batchMatch) {
+                const manifest = await cancelBatch(batchMatch[1]);
+                return new Response(
+                    JSON.stringify(manifest ?? { error: "Batch job not found" }, null, 2),
+                    {
+                        status: manifest ? 200 : 404,
+                        headers: addCorsHeaders(new Headers({ "content-type": "application/json" })),
+                    }
+                );
+            }
+
+            return new Response("Not found", { status: 404 });
+        }
+
         case "OPTIONS":
             return new Response(null, {
                 headers: addCorsHeaders(new Headers()),
@@ -6,9 +6,15 @@
 import { McpServer } from "npm:@modelcontextprotocol/sdk@1.11.0/server/mcp.js";
 import { StdioServerTransport } from "npm:@modelcontextprotocol/sdk@1.11.0/server/stdio.js";
 import { registerTools } from "./src/mcp/tools.ts";
+import { initStats, loadConfiguredStrategies } from "./src/strategies/mod.ts";
+import { initRules } from "./src/rules.ts";
 
 console.error("[MCP] Starting url-to-markdown MCP server (stdio)...");
 
+await loadConfiguredStrategies();
+await initRules();
+await initStats();
+
 const server = new McpServer({
     name: "url-to-markdown",
     version: "2.5.0",
@@ -0,0 +1,433 @@
+/**
+ * Batch Module
+ * Converts large URL lists in the background: a fixed pool of workers pulls
+ * URLs from the queue while each host gets at most BATCH_HOST_CONCURRENCY
+ * requests in flight and BATCH_HOST_DELAY milliseconds between request starts.
+ *
+ * Manifests and results are written to the batch store (see store.ts), so a
+ * job interrupted by a restart resumes its pending URLs on startup.
+ */
+
+import { zipSync, strToU8 } from "fflate";
+import { handleConversion, type ConversionOptions } from "../core/conversion.ts";
+import { parseStrategy, type Strategy } from "../strategies/mod.ts";
+import { generateFilename, readEnv } from "../utils.ts";
+import { createBatchStore, type BatchStore } from "./store.ts";
+
+export { createBatchStore, FileBatchStore, KvBatchStore, MemoryBatchStore, type BatchStore } from "./store.ts";
+
+export interface BatchOptions {
+    urls: string[];
+    /** Workers converting in parallel (default BATCH_CONCURRENCY, capped by BATCH_MAX_CONCURRENCY) */
+    concurrency?: number;
+    /** Requests in flight per host */
+    hostConcurrency?: number;
+    /** Minimum milliseconds between request starts on one host */
+    hostDelay?: number;
+    bypass?: boolean;
+    preserveImages?: boolean;
+    strategy?: Strategy;
+}
+
+export type BatchStatus = "running" | "completed" | "cancelled" | "failed";
+
+export interface BatchItem {
+    index: number;
+    url: string;
+    status: "pending" | "converted" | "failed";
+    title?: string;
+    strategy?: string;
+    /** Size of the Markdown in characters */
+    length?: number;
+    elapsed?: number;
+    fromCache?: boolean;
+    error?: string;
+    /** Markdown, only when requested */
+    content?: string;
+}
+
+export interface BatchManifest {
+    id: string;
+    status: BatchStatus;
+    options: Required<Omit<BatchOptions, "urls" | "strategy">> & { strategy?: Strategy };
+    createdAt: string;
+    updatedAt: string;
+    finishedAt?: string;
+    total: number;
+    counts: { pending: number; converted: number; failed: number };
+    items: BatchItem[];
+    error?: string;
+}
+
+interface ActiveBatch {
+    manifest: BatchManifest;
+    controller: AbortController;
+    done: Promise<void>;
+    saveTimer?: ReturnType<typeof setTimeout>;
+    /** Last queued manifest write; writes run one after another */
+    saving: Promise<void>;
+}
+
+const MAX_URLS = Number(readEnv("BATCH_MAX_URLS") || 1000);
+const DEFAULT_CONCURRENCY = Number(readEnv("BATCH_CONCURRENCY") || 4);
+const MAX_CONCURRENCY = Number(readEnv("BATCH_MAX_CONCURRENCY") || 10);
+const DEFAULT_HOST_CONCURRENCY = Number(readEnv("BATCH_HOST_CONCURRENCY") || 1);
+const DEFAULT_HOST_DELAY_MS = Number(readEnv("BATCH_HOST_DELAY") || 1000);
+const JOB_TTL_MS = Number(readEnv("BATCH_JOB_TTL") || 24 * 60 * 60) * 1000;
+const SAVE_DELAY_MS = 1000;
+// How long a worker waits before re-checking hosts that are all busy
+const IDLE_POLL_MS = 100;
+
+const active = new Map<string, ActiveBatch>();
+let store: BatchStore | undefined;
+
+function getStore(): BatchStore {
+    if (!store) {
+        store = createBatchStore(JOB_TTL_MS);
+        console.log(`[Batch] Using ${store.name} backend`);
+    }
+    return store;
+}
+
+/**
+ * Resume jobs that were still running when the process stopped
+ */
+export async function initBatches(): Promise<void> {
+    try {
+        const batchStore = getStore();
+        let resumed = 0;
+        for (const id of await batchStore.listJobs()) {
+            const manifest = await batchStore.loadJob(id);
+            if (!manifest) continue;
+            if (manifest.status === "running") {
+                launch(manifest);
+                resumed++;
+            }
+        }
+        await pruneJobs();
+        if (resumed > 0) {
+            console.log(`[Batch] Resumed ${resumed} unfinished job(s)`);
+        }
+    } catch (error) {
+        console.warn("[Batch] Failed to load stored jobs:", error);
+    }
+}
+
+/**
+ * Create a job, persist it and start converting in the background
+ */
+export async function startBatch(options: BatchOptions): Promise<BatchManifest> {
+    if (options.urls.length === 0) {
+        throw new Error("No URLs given");
+    }
+    if (options.urls.length > MAX_URLS) {
+        throw new Error(`Too many URLs (${options.urls.length}, limit ${MAX_URLS})`);
+    }
+
+    await pruneJobs();
+
+    const now = new Date().toISOString();
+    const manifest: BatchManifest = {
+        id: crypto.randomUUID(),
+        status: "running",
+        options: {
+            concurrency: clamp(options.concurrency ?? DEFAULT_CONCURRENCY, 1, MAX_CONCURRENCY),
+            hostConcurrency: clamp(options.hostConcurrency ?? DEFAULT_HOST_CONCURRENCY, 1, MAX_CONCURRENCY),
+            hostDelay: clamp(options.hostDelay ?? DEFAULT_HOST_DELAY_MS, 0, 60000),
+            bypass: options.bypass ?? false,
+            preserveImages: options.preserveImages ?? true,
+            strategy: options.strategy,
+        },
+        createdAt: now,
+        updatedAt: now,
+        total: options.urls.length,
+        counts: { pending: options.urls.length, converted: 0, failed: 0 },
+        items: options.urls.map((url, index) => ({ index, url, status: "pending" })),
+    };
+
+    await getStore().saveJob(manifest);
+    launch(manifest);
+    console.log(`[Batch] Started ${manifest.id} with ${manifest.total} URL(s)`);
+    return manifest;
+}
+
+/**
+ * Get a job's manifest, optionally with the Markdown of finished items
+ */
+export async function getBatch(id: string, includeContent = false): Promise<BatchManifest | undefined> {
+    const manifest = active.get(id)?.manifest ?? await getStore().loadJob(id);
+    if (!manifest) return undefined;
+    if (!includeContent) return manifest;
+
+    const items = await Promise.all(manifest.items.map(async (item) => {
+        if (item.status !== "converted") return item;
+        return { ...item, content: await getStore().loadContent(id, item.index) ?? undefined };
+    }));
+    return { ...manifest, items };
+}
+
+/**
+ * Stop a running job; finished items are kept and the rest stay pending
+ */
+export async function cancelBatch(id: string): Promise<BatchManifest | undefined> {
+    const job = active.get(id);
+    if (!job) {
+        return await getStore().loadJob(id) ?? undefined;
+    }
+    job.manifest.status = "cancelled";
+    job.controller.abort(new Error("Batch cancelled"));
+    await job.done;
+    return job.manifest;
+}
+
+/**
+ * Stream finished items as NDJSON, one JSON object per line
+ */
+export async function batchToNdjson(id: string): Promise<ReadableStream<Uint8Array> | undefined> {
+    const manifest = await getBatch(id);
+    if (!manifest) return undefined;
+
+    const encoder = new TextEncoder();
+    const items = manifest.items.filter((item) => item.status !== "pending");
+    let next = 0;
+
+    return new ReadableStream<Uint8Array>({
+        async pull(controller): Promise<void> {
+            if (next >= items.length) {
+                controller.close();
+                return;
+            }
+            const item = items[next++];
+            const content = item.status === "converted" ? await getStore().loadContent(id, item.index) : null;
+            controller.enqueue(encoder.encode(JSON.stringify({ ...item, content: content ?? undefined }) + "\n"));
+        },
+    });
+}
+
+/**
+ * Build a ZIP with one Markdown file per converted item plus manifest.json
+ */
+export async function batchToZip(id: string): Promise<Uint8Array<ArrayBuffer> | undefined> {
+    const manifest = await getBatch(id);
+    if (!manifest) return undefined;
+
+    const width = String(manifest.total).length;
+    const files: Record<string, Uint8Array> = {
+        "manifest.json": strToU8(JSON.stringify(manifest, null, 2)),
+    };
+    for (const item of manifest.items) {
+        if (item.status !== "converted") continue;
+        const content = await getStore().loadContent(id, item.index);
+        if (content === null) continue;
+        // Prefix with the index so names stay unique and in submission order
+        const name = `${String(item.index + 1).padStart(width, "0")}-${generateFilename(item.url)}`;
+        files[name] = strToU8(content);
+    }
+    return zipSync(files) as Uint8Array<ArrayBuffer>;
+}
+
+function launch(manifest: BatchManifest): void {
+    const job: ActiveBatch = {
+        manifest,
+        controller: new AbortController(),
+        done: Promise.resolve(),
+        saving: Promise.resolve(),
+    };
+    active.set(manifest.id, job);
+
+    job.done = runBatch(job)
+        .then(() => {
+            if (manifest.status === "running") manifest.status = "completed";
+        })
+        .catch((error) => {
+            manifest.status = job.controller.signal.aborted ? "cancelled" : "failed";
+            manifest.error = error instanceof Error ? error.message : String(error);
+        })
+        .then(async () => {
+            manifest.finishedAt = new Date().toISOString();
+            clearTimeout(job.saveTimer);
+            await save(job);
+            active.delete(manifest.id);
+            console.log(`[Batch] ${manifest.id} ${manifest.status}: ${manifest.counts.converted} converted, ${manifest.counts.failed} failed, ${manifest.counts.pending} pending`);
+        });
+}
+
+async function runBatch(job: ActiveBatch): Promise<void> {
+    const { manifest, controller: { signal } } = job;
+    const { concurrency, hostConcurrency, hostDelay } = manifest.options;
+    const batchStore = getStore();
+
+    const conversion: ConversionOptions = {
+        bypass: manifest.options.bypass,
+        preserveImages: manifest.options.preserveImages,
+        strategy: manifest.options.strategy,
+        download: false,
+        jsonFormat: false,
+        useCache: true,
+    };
+
+    const queue = manifest.items.filter((item) => item.status === "pending").map((item) => item.index);
+    const hosts = new Map<string, { inFlight: number; nextStart: number }>();
+
+    // Next URL whose host is free, or how long to wait until one may be
+    const take = (): number | { wait: number } | undefined => {
+        if (queue.length === 0) return undefined;
+        const now = Date.now();
+        let wait = IDLE_POLL_MS;
+        for (let i = 0; i < queue.length; i++) {
+            const host = hostOf(manifest.items[queue[i]].url);
+            const state = hosts.get(host) ?? { inFlight: 0, nextStart: 0 };
+            if (state.inFlight >= hostConcurrency) continue;
+            if (state.nextStart > now) {
+                wait = Math.min(wait, state.nextStart - now);
+                continue;
+            }
+            state.inFlight++;
+            state.nextStart = now + hostDelay;
+            hosts.set(host, state);
+            return queue.splice(i, 1)[0];
+        }
+        return { wait };
+    };
+
+    const worker = async () => {
+        while (!signal.aborted) {
+            const next = take();
+            if (next === undefined) return;
+            if (typeof next !== "number") {
+                await sleep(next.wait, signal);
+                continue;
+            }
+
+            const item = manifest.items[next];
+            const host = hostOf(item.url);
+            try {
+                const result = await handleConversion(item.url, conversion, signal);
+                await batchStore.saveContent(manifest.id, item.index, result.content);
+                item.status = "converted";
+                item.title = result.title;
+                item.strategy = result.strategy;
+                item.length = result.content.length;
+                item.elapsed = result.elapsed;
+                item.fromCache = result.fromCache;
+                delete item.error;
+            } catch (error) {
+                // Cancelled work stays pending so a resumed job picks it up
+                if (signal.aborted) return;
+                item.status = "failed";
+                item.error = error instanceof Error ? error.message : String(error);
+            } finally {
+                hosts.get(host)!.inFlight--;
+            }
+
+            updateCounts(manifest);
+            scheduleSave(job);
+        }
+    };
+
+    await Promise.all(Array.from({ length: concurrency }, worker));
+    updateCounts(manifest);
+
+    if (signal.aborted) {
+        throw signal.reason ?? new Error("Batch cancelled");
+    }
+}
+
+function updateCounts(manifest: BatchManifest): void {
+    const counts = { pending: 0, converted: 0, failed: 0 };
+    for (const item of manifest.items) counts[item.status]++;
+    manifest.counts = counts;
+}
+
+/**
+ * Coalesce manifest writes while a job runs
+ */
+function scheduleSave(job: ActiveBatch): void {
+    if (job.saveTimer) return;
+    job.saveTimer = setTimeout(() => {
+        job.saveTimer = undefined;
+        save(job);
+    }, SAVE_DELAY_MS);
+}
+
+/**
+ * Queue a manifest write behind the job's previous one, so the last write to start is the last to land
+ */
+function save(job: ActiveBatch): Promise<void> {
+    job.saving = job.saving.then(async () => {
+        job.manifest.updatedAt = new Date().toISOString();
+        try {
+            await getStore().saveJob(job.manifest);
+        } catch (error) {
+            console.warn(`[Batch] Failed to persist ${job.manifest.id}:`, error);
+        }
+    });
+    return job.saving;
+}
+
+/**
+ * Delete finished jobs older than BATCH_JOB_TTL
+ */
+async function pruneJobs(): Promise<void> {
+    const batchStore = getStore();
+    for (const id of await batchStore.listJobs()) {
+        if (active.has(id)) continue;
+        const manifest = await batchStore.loadJob(id);
+        if (manifest?.finishedAt && Date.now() - Date.parse(manifest.finishedAt) > JOB_TTL_MS) {
+            await batchStore.deleteJob(id);
+        }
+    }
+}
+
+/**
+ * Read batch options from a JSON request body (snake_case or camelCase keys)
+ */
+export function parseBatchOptions(body: Record<string, unknown>): BatchOptions {
+    const field = (snake: string, camel: string) => body[snake] ?? body[camel];
+    const number = (snake: string, camel: string) => {
+        const value = field(snake, camel);
+        if (value === undefined || value === null || value === "") return undefined;
+        const parsed = Number(value);
+        if (!Number.isFinite(parsed)) throw new Error(`Invalid '${snake}': ${value} (use a number)`);
+        return parsed;
+    };
+
+    if (!Array.isArray(body.urls)) {
+        throw new Error("Missing 'urls' array");
+    }
+    const urls = body.urls.map((value) => String(value).trim()).filter(Boolean);
+    const invalid = urls.find((url) => !URL.canParse(url) || !/^https?:$/.test(new URL(url).protocol));
+    if (invalid) {
+        throw new Error(`Invalid URL: ${invalid}`);
+    }
+
+    return {
+        urls,
+        concurrency: number("concurrency", "concurrency"),
+        hostConcurrency: number("host_concurrency", "hostConcurrency"),
+        hostDelay: number("host_delay", "hostDelay"),
+        bypass: body.bypass === true,
+        preserveImages: field("images", "preserveImages") !== false,
+        strategy: parseStrategy(typeof body.strategy === "string" ? body.strategy : undefined),
+    };
+}
+
+function hostOf(url: string): string {
+    return new URL(url).host;
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        const timer = setTimeout(done, ms);
+        signal.addEventListener("abort", done, { once: true });
+        function done(): void {
+            clearTimeout(timer);
+            signal.removeEventListener("abort", done);
+            resolve();
+        }
+    });
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(Math.max(Math.floor(value), min), max);
+}
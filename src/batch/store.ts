@@ -0,0 +1,236 @@
+/**
+ * Batch Job Stores
+ * Persist batch manifests and per-URL results so progress survives restarts.
+ *
+ * Backends (selected with BATCH_BACKEND):
+ * - memory: process lifetime only (default)
+ * - kv: Deno KV; values are chunked to stay under the 64 KiB limit
+ * - file: a directory per job under BATCH_DIR
+ */
+
+import { readEnv } from "../utils.ts";
+import type { BatchManifest } from "./mod.ts";
+
+export interface BatchStore {
+    readonly name: string;
+    saveJob(manifest: BatchManifest): Promise<void>;
+    loadJob(id: string): Promise<BatchManifest | null>;
+    /** Ids of every stored job */
+    listJobs(): Promise<string[]>;
+    saveContent(id: string, index: number, content: string): Promise<void>;
+    loadContent(id: string, index: number): Promise<string | null>;
+    deleteJob(id: string): Promise<void>;
+}
+
+export class MemoryBatchStore implements BatchStore {
+    readonly name = "memory";
+    private jobs = new Map<string, string>();
+    private content = new Map<string, Map<number, string>>();
+
+    saveJob(manifest: BatchManifest): Promise<void> {
+        // Stored serialized so callers cannot mutate the saved copy
+        this.jobs.set(manifest.id, JSON.stringify(manifest));
+        return Promise.resolve();
+    }
+
+    loadJob(id: string): Promise<BatchManifest | null> {
+        const saved = this.jobs.get(id);
+        return Promise.resolve(saved ? JSON.parse(saved) as BatchManifest : null);
+    }
+
+    listJobs(): Promise<string[]> {
+        return Promise.resolve([...this.jobs.keys()]);
+    }
+
+    saveContent(id: string, index: number, content: string): Promise<void> {
+        let job = this.content.get(id);
+        if (!job) {
+            job = new Map();
+            this.content.set(id, job);
+        }
+        job.set(index, content);
+        return Promise.resolve();
+    }
+
+    loadContent(id: string, index: number): Promise<string | null> {
+        return Promise.resolve(this.content.get(id)?.get(index) ?? null);
+    }
+
+    deleteJob(id: string): Promise<void> {
+        this.jobs.delete(id);
+        this.content.delete(id);
+        return Promise.resolve();
+    }
+}
+
+const KV_PREFIX = "batch";
+const CHUNK_SIZE = 16 * 1024; // characters; worst case 48 KiB of UTF-8
+
+export class KvBatchStore implements BatchStore {
+    readonly name = "kv";
+    private kv: Promise<Deno.Kv>;
+
+    constructor(path?: string, private retentionMs?: number) {
+        this.kv = Deno.openKv(path);
+    }
+
+    saveJob(manifest: BatchManifest): Promise<void> {
+        return this.write([KV_PREFIX, "job", manifest.id], JSON.stringify(manifest));
+    }
+
+    async loadJob(id: string): Promise<BatchManifest | null> {
+        const text = await this.read([KV_PREFIX, "job", id]);
+        return text === null ? null : JSON.parse(text) as BatchManifest;
+    }
+
+    async listJobs(): Promise<string[]> {
+        const kv = await this.kv;
+        const ids: string[] = [];
+        for await (const entry of kv.list({ prefix: [KV_PREFIX, "job"] })) {
+            // Chunk keys are one level deeper than the head key
+            if (entry.key.length === 3) ids.push(String(entry.key[2]));
+        }
+        return ids;
+    }
+
+    saveContent(id: string, index: number, content: string): Promise<void> {
+        return this.write([KV_PREFIX, "content", id, index], content);
+    }
+
+    loadContent(id: string, index: number): Promise<string | null> {
+        return this.read([KV_PREFIX, "content", id, index]);
+    }
+
+    async deleteJob(id: string): Promise<void> {
+        const kv = await this.kv;
+        for (const prefix of [[KV_PREFIX, "job", id], [KV_PREFIX, "content", id]]) {
+            await kv.delete(prefix);
+            for await (const entry of kv.list({ prefix })) {
+                await kv.delete(entry.key);
+            }
+        }
+    }
+
+    /**
+     * Store a string as a head key (chunk count) plus numbered chunk keys
+     */
+    private async write(key: Deno.KvKey, text: string): Promise<void> {
+        const kv = await this.kv;
+        const chunks = Math.max(1, Math.ceil(text.length / CHUNK_SIZE));
+        const options = this.retentionMs ? { expireIn: this.retentionMs } : undefined;
+        const previous = await kv.get<number>(key);
+
+        const op = kv.atomic();
+        for (let i = 0; i < chunks; i++) {
+            op.set([...key, i], text.slice(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE), options);
+        }
+        for (let i = chunks; i < (previous.value ?? 0); i++) {
+            op.delete([...key, i]);
+        }
+        op.set(key, chunks, options);
+
+        const result = await op.commit();
+        if (!result.ok) {
+            throw new Error(`KV commit failed for ${key.join("/")}`);
+        }
+    }
+
+    private async read(key: Deno.KvKey): Promise<string | null> {
+        const kv = await this.kv;
+        const head = await kv.get<number>(key);
+        if (typeof head.value !== "number") return null;
+
+        const chunkKeys = Array.from({ length: head.value }, (_, i) => [...key, i]);
+        const parts: string[] = [];
+        // getMany accepts at most 10 keys per call
+        for (let i = 0; i < chunkKeys.length; i += 10) {
+            for (const entry of await kv.getMany<string[]>(chunkKeys.slice(i, i + 10))) {
+                if (typeof entry.value !== "string") return null;
+                parts.push(entry.value);
+            }
+        }
+        return parts.join("");
+    }
+}
+
+export class FileBatchStore implements BatchStore {
+    readonly name = "file";
+
+    constructor(private dir: string) {}
+
+    saveJob(manifest: BatchManifest): Promise<void> {
+        return this.write(manifest.id, "job.json", JSON.stringify(manifest));
+    }
+
+    async loadJob(id: string): Promise<BatchManifest | null> {
+        const text = await this.read(id, "job.json");
+        return text === null ? null : JSON.parse(text) as BatchManifest;
+    }
+
+    async listJobs(): Promise<string[]> {
+        const ids: string[] = [];
+        try {
+            for await (const entry of Deno.readDir(this.dir)) {
+                if (entry.isDirectory) ids.push(entry.name);
+            }
+        } catch (error) {
+            if (!(error instanceof Deno.errors.NotFound)) throw error;
+        }
+        return ids;
+    }
+
+    saveContent(id: string, index: number, content: string): Promise<void> {
+        return this.write(id, `${index}.md`, content);
+    }
+
+    loadContent(id: string, index: number): Promise<string | null> {
+        return this.read(id, `${index}.md`);
+    }
+
+    async deleteJob(id: string): Promise<void> {
+        try {
+            await Deno.remove(this.jobDir(id), { recursive: true });
+        } catch (error) {
+            if (!(error instanceof Deno.errors.NotFound)) throw error;
+        }
+    }
+
+    private jobDir(id: string): string {
+        return `${this.dir}/${id.replace(/[^a-z0-9_-]/gi, "_")}`;
+    }
+
+    private async write(id: string, name: string, text: string): Promise<void> {
+        const dir = this.jobDir(id);
+        await Deno.mkdir(dir, { recursive: true });
+        // Write to a temp file and rename so readers never see a partial file
+        const tmpPath = `${dir}/${name}.${crypto.randomUUID()}.tmp`;
+        await Deno.writeTextFile(tmpPath, text);
+        await Deno.rename(tmpPath, `${dir}/${name}`);
+    }
+
+    private async read(id: string, name: string): Promise<string | null> {
+        try {
+            return await Deno.readTextFile(`${this.jobDir(id)}/${name}`);
+        } catch (error) {
+            if (error instanceof Deno.errors.NotFound) return null;
+            throw error;
+        }
+    }
+}
+
+/**
+ * Create the store configured through environment variables
+ */
+export function createBatchStore(retentionMs?: number, backend = readEnv("BATCH_BACKEND") || "memory"): BatchStore {
+    switch (backend) {
+        case "kv":
+            return new KvBatchStore(readEnv("BATCH_KV_PATH"), retentionMs);
+        case "file":
+            return new FileBatchStore(readEnv("BATCH_DIR") || ".cache/batches");
+        case "memory":
+            return new MemoryBatchStore();
+        default:
+            console.warn(`[Batch] Unknown backend "${backend}", falling back to memory`);
+            return new MemoryBatchStore();
+    }
+}
@@ -0,0 +1,65 @@
+/**
+ * On-Disk Cache Store
+ * One JSON file per entry, keyed by the (already hashed) cache key
+ */
+
+import type { CacheRecord, CacheStore } from "./mod.ts";
+
+export class DiskCacheStore implements CacheStore {
+    readonly name = "disk";
+    private dir: string;
+    private ready?: Promise<void>;
+
+    constructor(dir: string) {
+        this.dir = dir;
+    }
+
+    async get<T>(key: string): Promise<CacheRecord<T> | null> {
+        try {
+            const text = await Deno.readTextFile(this.pathFor(key));
+            return JSON.parse(text) as CacheRecord<T>;
+        } catch (error) {
+            if (error instanceof Deno.errors.NotFound) return null;
+            throw error;
+        }
+    }
+
+    async set<T>(key: string, record: CacheRecord<T>): Promise<void> {
+        await this.ensureDir();
+        // Write to a temp file and rename so readers never see a partial entry
+        const tmpPath = `${this.pathFor(key)}.${crypto.randomUUID()}.tmp`;
+        await Deno.writeTextFile(tmpPath, JSON.stringify(record));
+        await Deno.rename(tmpPath, this.pathFor(key));
+    }
+
+    async delete(key: string): Promise<void> {
+        try {
+            await Deno.remove(this.pathFor(key));
+        } catch (error) {
+            if (!(error instanceof Deno.errors.NotFound)) throw error;
+        }
+    }
+
+    async size(): Promise<number> {
+        let count = 0;
+        try {
+            for await (const entry of Deno.readDir(this.dir)) {
+                if (entry.isFile && entry.name.endsWith(".json")) count++;
+            }
+        } catch (error) {
+            if (!(error instanceof Deno.errors.NotFound)) throw error;
+        }
+        return count;
+    }
+
+    private pathFor(key: string): string {
+        return `${this.dir}/${key.replace(/[^a-z0-9_-]/gi, "_")}.json`;
+    }
+
+    private ensureDir(): Promise<void> {
+        if (!this.ready) {
+            this.ready = Deno.mkdir(this.dir, { recursive: true });
+        }
+        return this.ready;
+    }
+}
@@ -0,0 +1,97 @@
+/**
+ * Deno KV Cache Store
+ * Values are split into chunks to stay under the 64 KiB per-value limit
+ */
+
+import type { CacheRecord, CacheStore } from "./mod.ts";
+
+const PREFIX = "url-cache";
+const CHUNK_SIZE = 16 * 1024; // characters; worst case 48 KiB of UTF-8
+
+interface KvMeta {
+    storedAt: number;
+    expiresAt: number;
+    staleUntil: number;
+    chunks: number;
+}
+
+export class KvCacheStore implements CacheStore {
+    readonly name = "kv";
+    private kv: Promise<Deno.Kv>;
+
+    constructor(path?: string) {
+        this.kv = Deno.openKv(path);
+    }
+
+    async get<T>(key: string): Promise<CacheRecord<T> | null> {
+        const kv = await this.kv;
+        const meta = await kv.get<KvMeta>([PREFIX, "meta", key]);
+        if (!meta.value) return null;
+
+        const chunkKeys = Array.from({ length: meta.value.chunks }, (_, i) => [PREFIX, "chunk", key, i]);
+        const parts: string[] = [];
+        // getMany accepts at most 10 keys per call
+        for (let i = 0; i < chunkKeys.length; i += 10) {
+            const entries = await kv.getMany<string[]>(chunkKeys.slice(i, i + 10));
+            for (const entry of entries) {
+                if (typeof entry.value !== "string") return null; // Partially expired
+                parts.push(entry.value);
+            }
+        }
+
+        return {
+            value: JSON.parse(parts.join("")) as T,
+            storedAt: meta.value.storedAt,
+            expiresAt: meta.value.expiresAt,
+            staleUntil: meta.value.staleUntil,
+        };
+    }
+
+    async set<T>(key: string, record: CacheRecord<T>): Promise<void> {
+        const kv = await this.kv;
+        const serialized = JSON.stringify(record.value);
+        const chunks = Math.max(1, Math.ceil(serialized.length / CHUNK_SIZE));
+        const expireIn = Math.max(1, record.staleUntil - Date.now());
+
+        const previous = await kv.get<KvMeta>([PREFIX, "meta", key]);
+
+        const op = kv.atomic();
+        for (let i = 0; i < chunks; i++) {
+            op.set([PREFIX, "chunk", key, i], serialized.slice(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE), { expireIn });
+        }
+        // Drop leftover chunks from a previously larger value
+        for (let i = chunks; i < (previous.value?.chunks ?? 0); i++) {
+            op.delete([PREFIX, "chunk", key, i]);
+        }
+        op.set([PREFIX, "meta", key], {
+            storedAt: record.storedAt,
+            expiresAt: record.expiresAt,
+            staleUntil: record.staleUntil,
+            chunks,
+        } satisfies KvMeta, { expireIn });
+
+        const result = await op.commit();
+        if (!result.ok) {
+            throw new Error(`KV commit failed for ${key}`);
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        const kv = await this.kv;
+        const meta = await kv.get<KvMeta>([PREFIX, "meta", key]);
+        const op = kv.atomic().delete([PREFIX, "meta", key]);
+        for (let i = 0; i < (meta.value?.chunks ?? 0); i++) {
+            op.delete([PREFIX, "chunk", key, i]);
+        }
+        await op.commit();
+    }
+
+    async size(): Promise<number> {
+        const kv = await this.kv;
+        let count = 0;
+        for await (const _ of kv.list({ prefix: [PREFIX, "meta"] })) {
+            count++;
+        }
+        return count;
+    }
+}
@@ -0,0 +1,70 @@
+/**
+ * In-Memory Cache Store
+ * LRU eviction bounded by a total byte budget
+ */
+
+import type { CacheRecord, CacheStore } from "./mod.ts";
+
+interface MemoryEntry {
+    record: CacheRecord;
+    bytes: number;
+}
+
+export class MemoryCacheStore implements CacheStore {
+    readonly name = "memory";
+    private entries = new Map<string, MemoryEntry>();
+    private totalBytes = 0;
+    private maxBytes: number;
+
+    constructor(maxBytes: number) {
+        this.maxBytes = maxBytes;
+    }
+
+    get<T>(key: string): Promise<CacheRecord<T> | null> {
+        const entry = this.entries.get(key);
+        if (!entry) return Promise.resolve(null);
+
+        // Re-insert to mark as most recently used
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return Promise.resolve(entry.record as CacheRecord<T>);
+    }
+
+    set<T>(key: string, record: CacheRecord<T>): Promise<void> {
+        const bytes = new TextEncoder().encode(JSON.stringify(record)).length;
+        this.remove(key);
+
+        // A single entry larger than the whole budget is never cached
+        if (bytes > this.maxBytes) {
+            console.warn(`[Cache:memory] Entry ${key} (${bytes} bytes) exceeds budget, skipping`);
+            return Promise.resolve();
+        }
+
+        this.entries.set(key, { record, bytes });
+        this.totalBytes += bytes;
+
+        // Evict least recently used entries until we're back under budget
+        for (const oldest of this.entries.keys()) {
+            if (this.totalBytes <= this.maxBytes) break;
+            this.remove(oldest);
+        }
+        return Promise.resolve();
+    }
+
+    delete(key: string): Promise<void> {
+        this.remove(key);
+        return Promise.resolve();
+    }
+
+    size(): Promise<number> {
+        return Promise.resolve(this.entries.size);
+    }
+
+    private remove(key: string): void {
+        const entry = this.entries.get(key);
+        if (entry) {
+            this.totalBytes -= entry.bytes;
+            this.entries.delete(key);
+        }
+    }
+}
@@ -0,0 +1,142 @@
+/**
+ * Cache Module
+ * Pluggable storage for converted documents with TTL and stale-while-revalidate
+ *
+ * Backends (selected with CACHE_BACKEND):
+ * - memory: in-process LRU bounded by CACHE_MAX_BYTES (default)
+ * - kv: Deno KV (persists across isolates on Deno Deploy)
+ * - disk: one JSON file per entry under CACHE_DIR
+ * - none: disables caching entirely
+ */
+
+import { readEnv } from "../utils.ts";
+import { MemoryCacheStore } from "./memory.ts";
+import { KvCacheStore } from "./kv.ts";
+import { DiskCacheStore } from "./disk.ts";
+
+export { MemoryCacheStore } from "./memory.ts";
+export { KvCacheStore } from "./kv.ts";
+export { DiskCacheStore } from "./disk.ts";
+
+export interface CacheRecord<T = unknown> {
+    value: T;
+    storedAt: number;
+    /** After this point the entry is stale but may still be served while revalidating */
+    expiresAt: number;
+    /** After this point the entry is discarded */
+    staleUntil: number;
+}
+
+export interface CacheStore {
+    readonly name: string;
+    get<T>(key: string): Promise<CacheRecord<T> | null>;
+    set<T>(key: string, record: CacheRecord<T>): Promise<void>;
+    delete(key: string): Promise<void>;
+    size(): Promise<number>;
+}
+
+export type CacheLookup<T> =
+    | { state: "fresh"; record: CacheRecord<T> }
+    | { state: "stale"; record: CacheRecord<T> }
+    | { state: "miss" };
+
+const DEFAULT_TTL_SECONDS = 60 * 60; // 1 hour
+const DEFAULT_STALE_SECONDS = 24 * 60 * 60; // serve stale for up to a day
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024; // 50 MB
+
+export const CACHE_TTL_MS = Number(readEnv("CACHE_TTL") || DEFAULT_TTL_SECONDS) * 1000;
+export const CACHE_STALE_MS = Number(readEnv("CACHE_STALE_TTL") || DEFAULT_STALE_SECONDS) * 1000;
+
+/**
+ * Create the store configured through environment variables
+ */
+export function createCacheStore(backend = readEnv("CACHE_BACKEND") || "memory"): CacheStore | null {
+    switch (backend) {
+        case "none":
+            return null;
+        case "kv":
+            return new KvCacheStore(readEnv("CACHE_KV_PATH"));
+        case "disk":
+            return new DiskCacheStore(readEnv("CACHE_DIR") || ".cache/url-to-markdown");
+        case "memory":
+            return new MemoryCacheStore(Number(readEnv("CACHE_MAX_BYTES") || DEFAULT_MAX_BYTES));
+        default:
+            console.warn(`[Cache] Unknown backend "${backend}", falling back to memory`);
+            return new MemoryCacheStore(DEFAULT_MAX_BYTES);
+    }
+}
+
+let activeStore: CacheStore | null | undefined;
+
+/**
+ * Get the process-wide cache store (created lazily)
+ */
+export function getCacheStore(): CacheStore | null {
+    if (activeStore === undefined) {
+        activeStore = createCacheStore();
+        if (activeStore) {
+            console.log(`[Cache] Using ${activeStore.name} backend`);
+        }
+    }
+    return activeStore;
+}
+
+/**
+ * Replace the process-wide cache store (null disables caching)
+ */
+export function setCacheStore(next: CacheStore | null): void {
+    activeStore = next;
+}
+
+/**
+ * Look up a key and classify it as fresh, stale or missing
+ */
+export async function lookupCache<T>(key: string, now = Date.now()): Promise<CacheLookup<T>> {
+    const cache = getCacheStore();
+    if (!cache) return { state: "miss" };
+
+    try {
+        const record = await cache.get<T>(key);
+        if (!record) return { state: "miss" };
+
+        if (now >= record.staleUntil) {
+            await cache.delete(key);
+            return { state: "miss" };
+        }
+
+        return { state: now < record.expiresAt ? "fresh" : "stale", record };
+    } catch (error) {
+        console.warn(`[Cache] Lookup failed for ${key}:`, error);
+        return { state: "miss" };
+    }
+}
+
+/**
+ * Store a value with its own TTL
+ */
+export async function storeCache<T>(key: string, value: T, ttlMs = CACHE_TTL_MS): Promise<void> {
+    const cache = getCacheStore();
+    if (!cache) return;
+
+    const now = Date.now();
+    try {
+        await cache.set(key, {
+            value,
+            storedAt: now,
+            expiresAt: now + ttlMs,
+            staleUntil: now + ttlMs + CACHE_STALE_MS,
+        });
+    } catch (error) {
+        console.warn(`[Cache] Store failed for ${key}:`, error);
+    }
+}
+
+/**
+ * Hash an arbitrary string into a fixed-length hex cache key
+ */
+export async function hashKey(input: string): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(input));
+    return Array.from(new Uint8Array(digest))
+        .map((b) => b.toString(16).padStart(2, "0"))
+        .join("");
+}
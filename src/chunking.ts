@@ -0,0 +1,294 @@
+/**
+ * Chunking Module
+ * Splits converted Markdown into heading-aware chunks for RAG ingestion.
+ * Chunks never cross a heading, prefer paragraph then sentence boundaries,
+ * and are exact slices of the Markdown so offsets can be mapped back.
+ */
+
+import { hashKey } from "./cache/mod.ts";
+
+export type ChunkUnit = "tokens" | "chars";
+
+export interface ChunkOptions {
+    /** Budget per chunk, in `unit` */
+    size: number;
+    /** Amount repeated from the end of the previous chunk in the same section, in `unit` */
+    overlap: number;
+    unit: ChunkUnit;
+}
+
+export interface Chunk {
+    /** Stable id derived from the source URL, offset and content */
+    id: string;
+    index: number;
+    url: string;
+    /** Titles of the enclosing headings, outermost first */
+    headings: string[];
+    content: string;
+    /** Character offsets into the full Markdown (end exclusive) */
+    start: number;
+    end: number;
+    /** Estimated token count (about 4 characters per token) */
+    tokens: number;
+}
+
+interface Span {
+    start: number;
+    end: number;
+}
+
+interface Section extends Span {
+    headings: string[];
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = { size: 512, overlap: 64, unit: "tokens" };
+
+const CHARS_PER_TOKEN = 4;
+
+/** Accepted chunk_size / chunk_overlap range, in either unit */
+export const MIN_CHUNK_SIZE = 16;
+export const MAX_CHUNK_SIZE = 32768;
+const HEADING = /^(#{1,6})[ \t]+(.+?)[ \t#]*$/;
+const FENCE = /^[ \t]{0,3}(```|~~~)/;
+
+/**
+ * Rough token estimate; good enough for budgeting without a tokenizer
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Split Markdown into chunks that fit the budget
+ */
+export async function chunkMarkdown(markdown: string, url: string, options: ChunkOptions = DEFAULT_CHUNK_OPTIONS): Promise<Chunk[]> {
+    const scale = options.unit === "tokens" ? CHARS_PER_TOKEN : 1;
+    const budget = Math.max(1, options.size) * scale;
+    const overlap = Math.min(Math.max(0, options.overlap), options.size / 2) * scale;
+
+    const spans: Array<Span & { headings: string[] }> = [];
+    for (const section of splitSections(markdown)) {
+        for (const span of packSection(markdown, section, budget, overlap)) {
+            spans.push({ ...span, headings: section.headings });
+        }
+    }
+
+    return await Promise.all(spans.map(async (span, index) => {
+        const content = markdown.slice(span.start, span.end);
+        return {
+            id: (await hashKey(`${url}\n${span.start}\n${content}`)).slice(0, 16),
+            index,
+            url,
+            headings: span.headings,
+            content,
+            start: span.start,
+            end: span.end,
+            tokens: estimateTokens(content),
+        };
+    }));
+}
+
+/**
+ * Split at ATX headings (outside code fences), tracking the heading path.
+ * A heading directly followed by a subheading is folded into that subsection.
+ */
+function splitSections(markdown: string): Section[] {
+    const sections: Section[] = [];
+    const stack: Array<{ level: number; title: string }> = [];
+    let current: Section = { start: 0, end: markdown.length, headings: [] };
+    let inFence = false;
+
+    for (const line of lines(markdown)) {
+        if (FENCE.test(line.text)) inFence = !inFence;
+        if (inFence) continue;
+        const match = HEADING.exec(line.text);
+        if (!match) continue;
+
+        current.end = line.start;
+        sections.push(current);
+
+        const level = match[1].length;
+        while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+        stack.push({ level, title: plainText(match[2]) });
+        current = { start: line.start, end: markdown.length, headings: stack.map((h) => h.title) };
+    }
+    sections.push(current);
+
+    const merged: Section[] = [];
+    let pendingStart: number | undefined;
+    for (const section of sections) {
+        const body = markdown.slice(section.start, section.end).replace(/^#{1,6}[ \t].*$/m, "");
+        if (!body.trim()) {
+            // Heading-only (or empty) section: carry its text into the next one
+            if (markdown.slice(section.start, section.end).trim()) pendingStart ??= section.start;
+            continue;
+        }
+        merged.push({ ...section, start: pendingStart ?? section.start });
+        pendingStart = undefined;
+    }
+    if (pendingStart !== undefined) {
+        merged.push({ start: pendingStart, end: markdown.length, headings: sections[sections.length - 1].headings });
+    }
+    return merged;
+}
+
+/**
+ * Greedily pack a section's paragraphs into spans of at most `budget` characters
+ */
+function packSection(markdown: string, section: Section, budget: number, overlap: number): Span[] {
+    // Pieces of an oversized paragraph leave room for the overlap
+    const blocks = splitBlocks(markdown, section).flatMap((block) =>
+        block.end - block.start > budget ? splitOversized(markdown, block, budget - overlap) : [block]
+    );
+
+    const spans: Span[] = [];
+    let current: Span | undefined;
+    for (const block of blocks) {
+        if (current && block.end - current.start <= budget) {
+            current.end = block.end;
+            continue;
+        }
+        if (current) {
+            spans.push(current);
+            const from = overlapStart(markdown, current, overlap);
+            // Only keep the overlap when the next block still fits with it
+            current = { start: block.end - from <= budget ? from : block.start, end: block.end };
+        } else {
+            current = { ...block };
+        }
+    }
+    if (current) spans.push(current);
+    return spans;
+}
+
+/**
+ * Paragraph spans separated by blank lines; fenced code blocks stay whole
+ */
+function splitBlocks(markdown: string, section: Section): Span[] {
+    const blocks: Span[] = [];
+    let block: Span | undefined;
+    let inFence = false;
+
+    for (const line of lines(markdown, section.start, section.end)) {
+        if (FENCE.test(line.text)) inFence = !inFence;
+        if (!inFence && !line.text.trim()) {
+            if (block) blocks.push(block);
+            block = undefined;
+            continue;
+        }
+        if (block) {
+            block.end = line.end;
+        } else {
+            block = { start: line.start, end: line.end };
+        }
+    }
+    if (block) blocks.push(block);
+    return blocks;
+}
+
+/**
+ * Cut an oversized block at line, sentence or word boundaries
+ */
+function splitOversized(markdown: string, block: Span, budget: number): Span[] {
+    const pieces: Span[] = [];
+    let start = block.start;
+    while (block.end - start > budget) {
+        const window = markdown.slice(start, start + budget);
+        const cut = lastBoundary(window, /\n/g) ?? lastBoundary(window, /[.!?。！？][)"'\]]*\s+/g) ?? lastBoundary(window, /\s+/g) ?? budget;
+        pieces.push({ start, end: trimEnd(markdown, start, start + cut) });
+        start += cut;
+        while (start < block.end && /\s/.test(markdown[start])) start++;
+    }
+    if (start < block.end) pieces.push({ start, end: block.end });
+    return pieces;
+}
+
+/**
+ * End offset of the last boundary match, ignoring ones too close to the start
+ */
+function lastBoundary(window: string, pattern: RegExp): number | undefined {
+    let best: number | undefined;
+    for (const match of window.matchAll(pattern)) {
+        const end = match.index + match[0].length;
+        if (end > window.length / 4 && end < window.length) best = end;
+    }
+    return best;
+}
+
+/**
+ * Start the next chunk `overlap` characters before the end of the previous one, on a word boundary
+ */
+function overlapStart(markdown: string, previous: Span, overlap: number): number {
+    if (overlap <= 0) return previous.end;
+    let start = Math.max(previous.start + 1, previous.end - overlap);
+    while (start < previous.end && !/\s/.test(markdown[start - 1])) start++;
+    while (start < previous.end && /\s/.test(markdown[start])) start++;
+    return start;
+}
+
+function trimEnd(markdown: string, start: number, end: number): number {
+    while (end > start && /\s/.test(markdown[end - 1])) end--;
+    return end;
+}
+
+function* lines(markdown: string, from = 0, to = markdown.length): Generator<{ text: string; start: number; end: number }> {
+    let start = from;
+    while (start < to) {
+        const newline = markdown.indexOf("\n", start);
+        const end = newline === -1 || newline >= to ? to : newline;
+        yield { text: markdown.slice(start, end), start, end };
+        start = end + 1;
+    }
+}
+
+/**
+ * Heading text without links, emphasis or inline code markers
+ */
+function plainText(heading: string): string {
+    return heading
+        .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+        .replace(/[*_`]+/g, "")
+        .trim();
+}
+
+/**
+ * Fill in defaults; sizes given in characters default to the token defaults scaled up
+ */
+export function resolveChunkOptions(options: Partial<ChunkOptions>): ChunkOptions {
+    const unit = options.unit ?? DEFAULT_CHUNK_OPTIONS.unit;
+    const scale = unit === "chars" ? CHARS_PER_TOKEN : 1;
+    const size = options.size ?? DEFAULT_CHUNK_OPTIONS.size * scale;
+    return {
+        size,
+        // Keep the overlap below the chunk size
+        overlap: Math.min(options.overlap ?? DEFAULT_CHUNK_OPTIONS.overlap * scale, size - 1),
+        unit,
+    };
+}
+
+/**
+ * Read chunking options from query parameters (chunk_size, chunk_overlap, chunk_unit)
+ */
+export function parseChunkOptions(searchParams: URLSearchParams): ChunkOptions {
+    const number = (name: string, min: number) => {
+        const value = searchParams.get(name);
+        if (value === null || value === "") return undefined;
+        const parsed = Math.floor(Number(value));
+        if (!Number.isFinite(parsed) || parsed < min || parsed > MAX_CHUNK_SIZE) {
+            throw new Error(`Invalid '${name}': ${value} (use ${min}-${MAX_CHUNK_SIZE})`);
+        }
+        return parsed;
+    };
+    const unit = searchParams.get("chunk_unit");
+    if (unit !== null && unit !== "tokens" && unit !== "chars") {
+        throw new Error(`Invalid 'chunk_unit': ${unit} (use tokens or chars)`);
+    }
+
+    const size = number("chunk_size", MIN_CHUNK_SIZE);
+    const overlap = number("chunk_overlap", 0);
+    if (size !== undefined && overlap !== undefined && overlap >= size) {
+        throw new Error(`Invalid 'chunk_overlap': ${overlap} (must be less than chunk_size)`);
+    }
+
+    return resolveChunkOptions({ size, overlap, unit: unit ?? undefined });
+}
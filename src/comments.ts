@@ -0,0 +1,228 @@
+/**
+ * Comments Module
+ * Detects discussion threads (Hacker News, Reddit, Discourse, WordPress-style
+ * comment lists, schema.org Comment microdata and JSON-LD) and renders them
+ * as nested Markdown blockquotes or lists with author, time and score.
+ */
+
+import type { Element, HTMLDocument } from "deno-dom";
+import { type LdNode, readJsonLd } from "./metadata.ts";
+import { readEnv } from "./utils.ts";
+
+export type CommentStyle = "quote" | "list";
+
+export interface Comment {
+    author?: string;
+    /** ISO 8601 when the page's timestamp parses */
+    date?: string;
+    score?: string;
+    /** Comment body as HTML */
+    html: string;
+    replies: Comment[];
+}
+
+const MAX_COMMENTS = Number(readEnv("COMMENTS_MAX") || 500);
+
+/**
+ * Elements holding comments, stripped from the article when a thread is rendered separately.
+ * No bare `.comment`: articles use it too (e.g. highlighted code comments)
+ */
+export const COMMENT_CONTAINER_SELECTOR = [
+    ".comment-tree", "shreddit-comment-tree", "shreddit-comment", ".commentarea", "#comments", ".comments-area",
+    ".comment-list", ".commentlist", "[itemtype*='schema.org/Comment']",
+].join(", ");
+
+// Generic comment items, and the fields inside them tried most specific first
+const ITEM_SELECTOR = "shreddit-comment, [itemtype*='schema.org/Comment'], .comment, .topic-post";
+const AUTHOR_SELECTORS = ["[itemprop=author] [itemprop=name]", "[itemprop=author]", ".comment-author .fn", ".comment-author", ".author", ".username", ".names a", ".user"];
+const DATE_SELECTORS = ["time[datetime]", "[itemprop=dateCreated]", "[itemprop=datePublished]", "[data-time]", "faceplate-timeago[ts]", ".comment-date", ".date"];
+const SCORE_SELECTORS = ["[itemprop=upvoteCount]", ".score.unvoted", ".score", ".votes", ".points"];
+const TEXT_SELECTORS = ["[slot=comment]", "[itemprop=text]", ".comment-content", ".usertext-body .md", ".comment-text", ".cooked", ".comment-body", ".content"];
+
+/**
+ * Find the page's discussion thread; empty when the page has none. The document is left unchanged.
+ */
+export function extractComments(doc: HTMLDocument): Comment[] {
+    for (const detect of [hackerNews, jsonLdComments, markupComments]) {
+        const comments = detect(doc);
+        if (comments.length > 0) return comments;
+    }
+    return [];
+}
+
+/**
+ * Number of comments including replies
+ */
+export function countComments(comments: Comment[]): number {
+    return comments.reduce((total, comment) => total + 1 + countComments(comment.replies), 0);
+}
+
+/**
+ * Render a thread; replies nest inside their parent
+ * @param toMarkdown - Converts a comment body from HTML, with inline links
+ */
+export function renderComments(comments: Comment[], style: CommentStyle, toMarkdown: (html: string) => string): string {
+    const render = (comment: Comment): string => {
+        const parts = [byline(comment), toMarkdown(comment.html).trim(), ...comment.replies.map(render)].filter(Boolean);
+        const lines = parts.join("\n\n").split("\n");
+        if (style === "list") {
+            return lines.map((line, index) => index === 0 ? `- ${line}` : line ? `  ${line}` : "").join("\n");
+        }
+        return lines.map((line) => line ? `> ${line}` : ">").join("\n");
+    };
+    return comments.map(render).join("\n\n");
+}
+
+/**
+ * Parse the comments option: true or quote for blockquotes, list for nested lists
+ */
+export function parseCommentStyle(value: string | null | undefined): CommentStyle | undefined {
+    if (!value || value === "false") return undefined;
+    if (value === "true" || value === "quote") return "quote";
+    if (value === "list") return "list";
+    throw new Error(`Invalid 'comments': ${value} (use true, quote or list)`);
+}
+
+// ============== Detectors ==============
+
+/**
+ * Hacker News item pages: flat rows with an indent level
+ */
+function hackerNews(doc: HTMLDocument): Comment[] {
+    const rows = [...doc.querySelectorAll("tr.athing.comtr")] as Element[];
+    const roots: Comment[] = [];
+    const stack: Array<{ depth: number; comment: Comment }> = [];
+
+    const deep = true;
+    for (const row of rows.slice(0, MAX_COMMENTS)) {
+        // Work on a copy: the page is still converted after the thread is read
+        const text = row.querySelector(".commtext")?.cloneNode(deep) as Element | undefined;
+        if (!text) continue;
+        for (const reply of [...text.querySelectorAll(".reply")]) reply.remove();
+
+        const indent = row.querySelector("td.ind");
+        const depth = Number(indent?.getAttribute("indent") ?? Number(indent?.querySelector("img")?.getAttribute("width") ?? 0) / 40);
+        const comment: Comment = {
+            author: row.querySelector(".hnuser")?.textContent?.trim() || undefined,
+            date: isoDate(row.querySelector(".age")?.getAttribute("title")?.split(" ")[0]),
+            html: text.innerHTML,
+            replies: [],
+        };
+
+        while (stack.length > 0 && stack[stack.length - 1].depth >= depth) stack.pop();
+        (stack.length > 0 ? stack[stack.length - 1].comment.replies : roots).push(comment);
+        stack.push({ depth, comment });
+    }
+    return roots;
+}
+
+/**
+ * schema.org `comment` lists in JSON-LD (DiscussionForumPosting, BlogPosting, ...)
+ */
+function jsonLdComments(doc: HTMLDocument): Comment[] {
+    let budget = MAX_COMMENTS;
+    const convert = (node: LdNode): Comment | undefined => {
+        const text = typeof node.text === "string" ? node.text : undefined;
+        if (!text || budget-- <= 0) return undefined;
+        const author = [node.author].flat()[0];
+        const name = typeof author === "string" ? author : ldObjects(author)[0]?.name;
+        const votes = ldObjects(node.interactionStatistic)
+            .find((stat) => /Like|Vote/i.test(String(stat.interactionType ?? "")))?.userInteractionCount;
+        const date = node.dateCreated ?? node.datePublished;
+        return {
+            author: typeof name === "string" && name ? name : undefined,
+            date: isoDate(typeof date === "string" ? date : undefined),
+            score: node.upvoteCount !== undefined ? String(node.upvoteCount) : votes !== undefined ? String(votes) : undefined,
+            // JSON-LD text is plain; keep its paragraphs
+            html: text.split(/\n{2,}/).map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`).join(""),
+            replies: ldObjects(node.comment).map(convert).filter((reply): reply is Comment => !!reply),
+        };
+    };
+
+    for (const item of readJsonLd(doc)) {
+        const comments = ldObjects(item.comment).map(convert).filter((c): c is Comment => !!c);
+        if (comments.length > 0) return comments;
+    }
+    return [];
+}
+
+/**
+ * Comment elements in the markup; replies are comment elements nested inside another
+ */
+function markupComments(doc: HTMLDocument): Comment[] {
+    const elements = ([...doc.querySelectorAll(ITEM_SELECTOR)] as Element[])
+        .filter((element) => !element.querySelector("form, textarea"));
+    const items = new Set(elements);
+    const parentOf = (element: Element): Element | undefined => {
+        for (let node = element.parentElement; node; node = node.parentElement) {
+            if (items.has(node)) return node;
+        }
+        return undefined;
+    };
+    // First match of the first matching selector that belongs to this comment rather than one of its replies
+    const own = (element: Element, selectors: string[]): Element | undefined => {
+        for (const selector of selectors) {
+            const match = ([...element.querySelectorAll(selector)] as Element[]).find((found) => parentOf(found) === element);
+            if (match) return match;
+        }
+        return undefined;
+    };
+
+    const comments = new Map<Element, Comment>();
+    const roots: Comment[] = [];
+    for (const element of elements) {
+        if (comments.size >= MAX_COMMENTS) break;
+        const text = own(element, TEXT_SELECTORS);
+        if (!text || !text.textContent?.trim()) continue;
+
+        const dateElement = own(element, DATE_SELECTORS);
+        const scoreElement = own(element, SCORE_SELECTORS);
+        const comment: Comment = {
+            author: element.getAttribute("author") || element.getAttribute("data-author") ||
+                own(element, AUTHOR_SELECTORS)?.textContent?.trim() || undefined,
+            date: isoDate(
+                dateElement?.getAttribute("datetime") ?? dateElement?.getAttribute("content") ??
+                    dateElement?.getAttribute("data-time") ?? dateElement?.getAttribute("ts") ?? dateElement?.textContent,
+            ),
+            score: element.getAttribute("score") ?? scoreNumber(scoreElement?.getAttribute("title") ?? scoreElement?.textContent),
+            html: text.innerHTML,
+            replies: [],
+        };
+        comments.set(element, comment);
+
+        let parent = parentOf(element);
+        while (parent && !comments.has(parent)) parent = parentOf(parent);
+        (parent ? comments.get(parent)!.replies : roots).push(comment);
+    }
+    return roots;
+}
+
+// ============== Helpers ==============
+
+function byline(comment: Comment): string {
+    const score = comment.score === undefined ? undefined : /^-?\d+$/.test(comment.score) ? `${comment.score} points` : comment.score;
+    return [`**${comment.author ?? "Anonymous"}**`, comment.date, score].filter(Boolean).join(" · ");
+}
+
+/**
+ * Normalize a timestamp (dated text, epoch milliseconds) to ISO 8601; other text ("2 hours ago") is kept as is
+ */
+function isoDate(value: string | null | undefined): string | undefined {
+    const text = value?.replace(/\s+/g, " ").trim();
+    if (!text) return undefined;
+    if (/^\d{12,13}$/.test(text)) return new Date(Number(text)).toISOString();
+    const time = /\d{4}/.test(text) ? Date.parse(text) : NaN;
+    return Number.isNaN(time) ? text : new Date(time).toISOString();
+}
+
+function scoreNumber(value: string | null | undefined): string | undefined {
+    return value?.match(/-?\d[\d,]*/)?.[0].replace(/,/g, "");
+}
+
+function ldObjects(value: unknown): LdNode[] {
+    return [value].flat().filter((entry): entry is LdNode => !!entry && typeof entry === "object");
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
@@ -3,38 +3,95 @@
  * Extracted from main.ts for reuse in MCP tools
  */
 
+import type { HTMLDocument } from "deno-dom";
 import {
+    commentsToMarkdown,
     generateJsonData,
     generateMarkdownText,
+    parseHtml,
 } from "../html-to-markdown.ts";
 import {
     fetchHtmlWithStrategies,
 } from "../utils.ts";
-import type { Strategy } from "../strategies/mod.ts";
+import { parseStrategy, type Strategy, type StrategyAttempt } from "../strategies/mod.ts";
 import { extractFromJsonLd } from "../jsonld.ts";
+import { pdfToMarkdown } from "../pdf-to-markdown.ts";
+import { extractLinks, extractMarkdownLinks, normalizeLink } from "../links.ts";
+import { extractMetadata, extractMetadataReport, type MetadataReport, type PageMetadata } from "../metadata.ts";
+import { withFrontMatter } from "../frontmatter.ts";
+import { type ExtractionOptions, type Extractor, getDefaultExtractor, parseExtractor } from "../extractors.ts";
+import { findRule } from "../rules.ts";
+import { type ConvertedPage, findNextPage, parsePageLimit, stitchPages } from "../pagination.ts";
+import { type CommentStyle, parseCommentStyle } from "../comments.ts";
+import { type LinkStyle, parseLinkStyle } from "../markdown-rules.ts";
+import { getCacheStore, hashKey, lookupCache, storeCache } from "../cache/mod.ts";
 
-// ============== URL Cache (DISABLED) ==============
-// Cache is disabled per user request
-const urlCache = new Map<string, { data: CacheEntry; timestamp: number }>();
-
+// ============== URL Cache ==============
 export interface CacheEntry {
     content: string;
     strategy: string;
     contentType: string;
     title?: string;
+    /** Strategy attempts made while fetching (kept with cached entries) */
+    attempts?: StrategyAttempt[];
+    /** Domain rule applied while fetching */
+    rule?: string;
+    /** Absolute links found on the page (only with the collectLinks option) */
+    links?: string[];
+    /** URLs stitched into the content, in order (only when more than one page was followed) */
+    pages?: string[];
+}
+
+/**
+ * Thrown when every strategy failed; carries the attempt trace for debug output
+ */
+export class ConversionError extends Error {
+    constructor(message: string, readonly attempts: StrategyAttempt[], readonly rule?: string) {
+        super(message);
+        this.name = "ConversionError";
+    }
+}
+
+// Options that only change how the result is delivered, not what it contains
+const NON_OUTPUT_OPTIONS: ReadonlyArray<keyof ConversionOptions> = ["download", "useCache", "cacheTtl", "debug"];
+
+// Conversions currently running, so concurrent callers and revalidations share one fetch.
+// The shared fetch is only aborted once every caller waiting on it has gone away.
+interface InflightConversion {
+    promise: Promise<CacheEntry>;
+    controller: AbortController;
+    waiters: number;
+}
+const inflight = new Map<string, InflightConversion>();
+
+/**
+ * Build the cache key from the URL and every option that affects output.
+ * Extraction settings are keyed as resolved, so changing a domain rule or EXTRACTOR misses old entries.
+ */
+export async function cacheKey(url: string, options: ConversionOptions): Promise<string> {
+    const relevant = Object.entries({ ...options, ...resolveExtraction(url, options) })
+        .filter(([name, value]) => !NON_OUTPUT_OPTIONS.includes(name as keyof ConversionOptions) && value !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b));
+    return await hashKey(JSON.stringify([url, relevant]));
 }
 
-export function getCached(_url: string): CacheEntry | null {
-    // Cache disabled - always return null
-    return null;
+export async function getCached(key: string): Promise<CacheEntry | null> {
+    const hit = await lookupCache<CacheEntry>(key);
+    return hit.state === "miss" ? null : hit.record.value;
 }
 
-export function setCache(_url: string, _data: CacheEntry): void {
-    // Cache disabled - do nothing
+export async function setCache(key: string, data: CacheEntry, ttlMs?: number): Promise<void> {
+    await storeCache(key, data, ttlMs);
 }
 
-export function getCacheSize(): number {
-    return 0;
+export async function getCacheSize(): Promise<number> {
+    const store = getCacheStore();
+    if (!store) return 0;
+    try {
+        return await store.size();
+    } catch {
+        return 0;
+    }
 }
 
 // ============== Options ==============
@@ -44,7 +101,29 @@ export interface ConversionOptions {
     strategy?: Strategy;
     download: boolean;
     jsonFormat: boolean;
+    /** Prefix Markdown output with YAML front matter (ignored for JSON output) */
+    frontMatter?: boolean;
+    /** Main-content extractor (defaults to the domain rule's, then EXTRACTOR) */
+    extractor?: Extractor;
+    /** Convert only elements matching this CSS selector (defaults to the domain rule's) */
+    includeSelector?: string;
+    /** Strip elements matching this CSS selector before extraction (defaults to the domain rule's) */
+    excludeSelector?: string;
+    /** Follow next-page links and stitch up to this many pages, the first included */
+    followPages?: number;
+    /** Append the page's comment thread as nested blockquotes or lists */
+    comments?: CommentStyle;
+    /** Inline, referenced (default), footnote or strip */
+    linkStyle?: LinkStyle;
     useCache: boolean;
+    /** Per-request cache lifetime in milliseconds (defaults to CACHE_TTL) */
+    cacheTtl?: number;
+    /** Return a JSON envelope with the strategy attempt trace */
+    debug?: boolean;
+    /** Also return the page's outgoing links (used by crawl mode) */
+    collectLinks?: boolean;
+    /** Refuse pages that redirect to another origin (used by crawl mode) */
+    origin?: string;
 }
 
 export interface ConversionResult {
@@ -53,42 +132,173 @@ export interface ConversionResult {
     contentType: string;
     elapsed: number;
     fromCache: boolean;
+    /** True when a stale cached copy was served while a refresh runs in the background */
+    stale?: boolean;
     title?: string;
+    attempts?: StrategyAttempt[];
+    rule?: string;
+    links?: string[];
+    pages?: string[];
 }
 
 /**
  * Handle URL to Markdown conversion
+ * Serves fresh cache hits directly, serves stale hits while revalidating in the background
+ * @param signal - Aborts in-flight fetches when the caller goes away
  */
-export async function handleConversion(url: string, options: ConversionOptions): Promise<ConversionResult> {
+export async function handleConversion(
+    url: string,
+    options: ConversionOptions,
+    signal?: AbortSignal,
+): Promise<ConversionResult> {
     const startTime = Date.now();
-    const { bypass, preserveImages, strategy, jsonFormat, useCache } = options;
+    const { useCache, cacheTtl } = options;
 
-    // Check cache first
-    if (useCache) {
-        const cached = getCached(url);
-        if (cached) {
-            return {
-                ...cached,
-                elapsed: Date.now() - startTime,
-                fromCache: true,
-            };
-        }
+    if (!useCache) {
+        const result = await convertUrl(url, options, signal);
+        return { ...result, elapsed: Date.now() - startTime, fromCache: false };
+    }
+
+    const key = await cacheKey(url, options);
+    const hit = await lookupCache<CacheEntry>(key);
+
+    if (hit.state === "fresh") {
+        return {
+            ...hit.record.value,
+            elapsed: Date.now() - startTime,
+            fromCache: true,
+        };
     }
 
+    if (hit.state === "stale") {
+        console.log(`[Cache] Serving stale entry, revalidating: ${url}`);
+        runConversion(key, url, options, cacheTtl).catch((error) => {
+            console.warn(`[Cache] Revalidation failed for ${url}:`, error);
+        });
+        return {
+            ...hit.record.value,
+            elapsed: Date.now() - startTime,
+            fromCache: true,
+            stale: true,
+        };
+    }
+
+    const result = await runConversion(key, url, options, cacheTtl, signal);
+    return {
+        ...result,
+        elapsed: Date.now() - startTime,
+        fromCache: false,
+    };
+}
+
+/**
+ * Convert and store the result, sharing the work with concurrent callers for the same key
+ */
+function runConversion(
+    key: string,
+    url: string,
+    options: ConversionOptions,
+    ttlMs?: number,
+    signal?: AbortSignal,
+): Promise<CacheEntry> {
+    let entry = inflight.get(key);
+    if (!entry) {
+        const controller = new AbortController();
+        const promise = (async () => {
+            try {
+                const result = await convertUrl(url, options, controller.signal);
+                await setCache(key, result, ttlMs);
+                return result;
+            } finally {
+                inflight.delete(key);
+            }
+        })();
+        entry = { promise, controller, waiters: 0 };
+        inflight.set(key, entry);
+    }
+
+    // Callers without a signal (e.g. background revalidation) keep the fetch alive
+    entry.waiters++;
+    if (!signal) return entry.promise;
+
+    const shared = entry;
+    return new Promise<CacheEntry>((resolve, reject) => {
+        const onAbort = () => {
+            if (--shared.waiters === 0) {
+                shared.controller.abort(signal.reason);
+            }
+            reject(signal.reason ?? new Error("Aborted"));
+        };
+        if (signal.aborted) {
+            onAbort();
+            return;
+        }
+        signal.addEventListener("abort", onAbort, { once: true });
+        shared.promise.then(resolve, reject).finally(() => {
+            signal.removeEventListener("abort", onAbort);
+        });
+    });
+}
+
+/**
+ * Fetch a URL and convert it, without touching the cache
+ */
+async function convertUrl(url: string, options: ConversionOptions, signal?: AbortSignal): Promise<CacheEntry> {
+    const { bypass, preserveImages, strategy, jsonFormat, frontMatter, collectLinks, followPages, linkStyle } = options;
+    const extraction = resolveExtraction(url, options);
+
     // Fetch content with strategies
     const fetchResult = await fetchHtmlWithStrategies(url, {
         bypass,
         strategy,
+        signal,
     });
 
     if (!fetchResult.success) {
-        throw new Error(fetchResult.error || "Failed to fetch content");
+        throw new ConversionError(fetchResult.error || "Failed to fetch content", fetchResult.attempts, fetchResult.rule);
+    }
+
+    const { attempts, rule } = fetchResult;
+    // Relative links resolve against the page that was actually served
+    const pageUrl = fetchResult.finalUrl || url;
+    if (options.origin && new URL(pageUrl).origin !== options.origin) {
+        throw new ConversionError(`Redirected off-origin to ${pageUrl}`, attempts, rule);
     }
 
     let result: CacheEntry;
+    let metadata: PageMetadata = {};
 
-    // If Jina returned markdown directly, use it
-    if (fetchResult.markdown) {
+    if (fetchResult.pdf) {
+        console.log(`[PDF] Converting ${fetchResult.pdf.length} byte document: ${url}`);
+        const pdf = await pdfToMarkdown(fetchResult.pdf);
+        if (jsonFormat) {
+            const jsonData = {
+                url,
+                title: pdf.title || "Untitled PDF",
+                date: new Date().toISOString(),
+                content: pdf.markdown,
+                strategy: fetchResult.strategy,
+                author: pdf.author,
+                pageCount: pdf.pageCount,
+                attempts,
+            };
+            result = {
+                content: JSON.stringify(jsonData, null, 2),
+                strategy: fetchResult.strategy,
+                contentType: "application/json",
+                title: pdf.title,
+            };
+        } else {
+            result = {
+                content: pdf.markdown,
+                strategy: fetchResult.strategy,
+                contentType: "text/plain; charset=utf-8",
+                title: pdf.title,
+            };
+            metadata = { title: pdf.title, authors: pdf.author ? [pdf.author] : undefined };
+        }
+    } else if (fetchResult.markdown) {
+        // Jina returned markdown directly, use it
         if (jsonFormat) {
             const jsonData = {
                 url,
@@ -97,6 +307,7 @@ export async function handleConversion(url: string, options: ConversionOptions):
                 content: fetchResult.markdown,
                 strategy: fetchResult.strategy,
                 elapsed: fetchResult.elapsed,
+                attempts,
             };
             result = {
                 content: JSON.stringify(jsonData, null, 2),
@@ -111,66 +322,198 @@ export async function handleConversion(url: string, options: ConversionOptions):
             };
         }
     } else if (fetchResult.html) {
-        // Try JSON-LD extraction first
-        const jsonLd = extractFromJsonLd(fetchResult.html);
+        // Parsed once; everything that reads the page runs before extraction modifies it
+        const document = parseHtml(fetchResult.html);
+        if (frontMatter && !jsonFormat) metadata = extractMetadata(document, pageUrl);
+        const next = followPages && followPages > 1 ? findNextPage(document, pageUrl) : undefined;
+        result = convertHtmlDocument(document, pageUrl, fetchResult.strategy, preserveImages, jsonFormat, extraction, linkStyle, {
+            attempts,
+        });
+        if (next) {
+            result = await stitchFollowingPages(result, next, pageUrl, options, extraction, signal);
+        }
+    } else {
+        throw new ConversionError("No content received from fetch", attempts, rule);
+    }
 
-        if (jsonLd && jsonLd.content.length > 500) {
-            console.log(`[JSON-LD] Using structured data for: ${url}`);
+    if (frontMatter && !jsonFormat) {
+        result.content = withFrontMatter(result.content, { ...metadata, title: metadata.title ?? result.title }, {
+            url,
+            strategy: fetchResult.strategy,
+        });
+    }
 
-            let markdown = `# ${jsonLd.title}\n\n`;
-            if (jsonLd.author) {
-                markdown += `*By ${jsonLd.author}*\n\n`;
-            }
-            markdown += jsonLd.content;
-
-            if (jsonFormat) {
-                const jsonData = {
-                    url,
-                    title: jsonLd.title,
-                    date: jsonLd.date || new Date().toISOString(),
-                    content: markdown,
-                    strategy: fetchResult.strategy,
-                    author: jsonLd.author,
-                };
-                result = {
-                    content: JSON.stringify(jsonData, null, 2),
-                    strategy: fetchResult.strategy,
-                    contentType: "application/json",
-                    title: jsonLd.title,
-                };
-            } else {
-                result = {
-                    content: markdown,
-                    strategy: fetchResult.strategy,
-                    contentType: "text/plain; charset=utf-8",
-                    title: jsonLd.title,
-                };
-            }
-        } else {
-            // Fallback to Readability + Turndown
-            if (jsonFormat) {
-                result = {
-                    content: generateJsonData(fetchResult.html, url, fetchResult.strategy, preserveImages),
-                    strategy: fetchResult.strategy,
-                    contentType: "application/json",
-                };
-            } else {
-                result = {
-                    content: generateMarkdownText(fetchResult.html, preserveImages, url),
-                    strategy: fetchResult.strategy,
-                    contentType: "text/plain; charset=utf-8",
-                };
-            }
+    if (collectLinks) {
+        result.links = fetchResult.html
+            ? extractLinks(fetchResult.html, pageUrl)
+            : extractMarkdownLinks(fetchResult.markdown ?? "", url);
+    }
+
+    return { ...result, attempts, rule };
+}
+
+/**
+ * Follow next-page links from the first page and stitch all pages into one document
+ * @param first - The converted first page
+ * @param second - URL of the page that continues the first one
+ */
+async function stitchFollowingPages(
+    first: CacheEntry,
+    second: string,
+    url: string,
+    options: ConversionOptions,
+    extraction: ExtractionOptions,
+    signal?: AbortSignal,
+): Promise<CacheEntry> {
+    const isJson = first.contentType === "application/json";
+    const pages: ConvertedPage[] = [{ url, markdown: isJson ? JSON.parse(first.content).content : first.content }];
+    const visited = new Set([normalizeLink(url, url) ?? url]);
+    // Later pages are stitched as Markdown, whatever the output format
+    const jsonFormat = false;
+    let next: string | undefined = second;
+
+    while (next && pages.length < (options.followPages ?? 1) && !signal?.aborted) {
+        visited.add(next);
+        const fetched = await fetchHtmlWithStrategies(next, { bypass: options.bypass, strategy: options.strategy, signal });
+        if (!fetched.success || !fetched.html) {
+            console.warn(`[Pages] Stopping at ${next}: ${fetched.error || "no HTML returned"}`);
+            break;
         }
-    } else {
-        throw new Error("No content received from fetch");
+        const document = parseHtml(fetched.html);
+        const pageUrl = fetched.finalUrl || next;
+        const following = findNextPage(document, pageUrl, visited);
+        const page = convertHtmlDocument(document, pageUrl, fetched.strategy, options.preserveImages, jsonFormat, extraction, options.linkStyle);
+        pages.push({ url: next, markdown: page.content });
+        next = following;
     }
 
-    // Save to cache
-    if (useCache) {
-        setCache(url, result);
+    if (pages.length === 1) return first;
+    console.log(`[Pages] Stitched ${pages.length} pages: ${url}`);
+
+    const content = stitchPages(pages);
+    const urls = pages.map((page) => page.url);
+    if (isJson) {
+        return { ...first, content: JSON.stringify({ ...JSON.parse(first.content), content, pages: urls }, null, 2), pages: urls };
     }
+    return { ...first, content, pages: urls };
+}
+
+/**
+ * Run the JSON-LD / Readability / Turndown pipeline on a parsed HTML document (extraction modifies it)
+ * @param url - Page URL, also the base for resolving relative links (may be empty)
+ * @param extraction - Extractor, include/exclude selectors and comment style
+ * @param linkStyle - Inline, referenced (default), footnote or strip
+ * @param extra - Additional fields for JSON output
+ */
+function convertHtmlDocument(
+    document: HTMLDocument,
+    url: string,
+    strategy: string,
+    preserveImages: boolean,
+    jsonFormat: boolean,
+    extraction: ExtractionOptions,
+    linkStyle: LinkStyle | undefined,
+    extra: Record<string, unknown> = {},
+): CacheEntry {
+    // JSON output carries the page metadata, with its publish date when known
+    if (jsonFormat) {
+        const metadata = extractMetadata(document, url || undefined);
+        extra = { ...(metadata.published ? { date: metadata.published } : {}), metadata, ...extra };
+    }
+
+    // Try JSON-LD extraction first, unless selectors say which part of the page to convert
+    const targeted = extraction.includeSelector || extraction.excludeSelector;
+    const jsonLd = targeted ? null : extractFromJsonLd(document, url || undefined);
+
+    // Rendered recipes, products etc. are short but complete; a bare articleBody must be substantial
+    if (jsonLd && (jsonLd.rendered || jsonLd.content.length > 500)) {
+        console.log(`[JSON-LD] Using structured data for: ${url || "HTML input"}`);
+
+        let markdown = `# ${jsonLd.title}\n\n`;
+        if (jsonLd.author) {
+            markdown += `*By ${jsonLd.author}*\n\n`;
+        }
+        markdown += jsonLd.content;
+        const comments = extraction.comments ? commentsToMarkdown(document, extraction.comments, url || undefined, linkStyle) : undefined;
+        if (comments) {
+            markdown += comments.markdown;
+        }
 
+        if (jsonFormat) {
+            const jsonData = {
+                url,
+                title: jsonLd.title,
+                content: markdown,
+                strategy,
+                author: jsonLd.author,
+                ...(comments ? { commentCount: comments.count } : {}),
+                ...extra,
+                date: jsonLd.date || extra.date || new Date().toISOString(),
+            };
+            return {
+                content: JSON.stringify(jsonData, null, 2),
+                strategy,
+                contentType: "application/json",
+                title: jsonLd.title,
+            };
+        }
+        return {
+            content: markdown,
+            strategy,
+            contentType: "text/plain; charset=utf-8",
+            title: jsonLd.title,
+        };
+    }
+
+    // Fallback to Readability + Turndown
+    if (jsonFormat) {
+        return {
+            content: generateJsonData(document, url, strategy, preserveImages, extra, extraction, linkStyle),
+            strategy,
+            contentType: "application/json",
+        };
+    }
+    return {
+        content: generateMarkdownText(document, preserveImages, url || undefined, extraction, linkStyle),
+        strategy,
+        contentType: "text/plain; charset=utf-8",
+    };
+}
+
+// ============== HTML Input ==============
+export interface HtmlConversionOptions {
+    /** URL the HTML came from; used for relative links and reported in JSON output */
+    baseUrl?: string;
+    preserveImages: boolean;
+    jsonFormat: boolean;
+    frontMatter?: boolean;
+    extractor?: Extractor;
+    includeSelector?: string;
+    excludeSelector?: string;
+    comments?: CommentStyle;
+    linkStyle?: LinkStyle;
+}
+
+/**
+ * Convert HTML the caller already has, without fetching or caching
+ */
+export function convertHtml(html: string, options: HtmlConversionOptions): ConversionResult {
+    const startTime = Date.now();
+    const { baseUrl, preserveImages, jsonFormat, frontMatter } = options;
+    if (baseUrl && !URL.canParse(baseUrl)) {
+        throw new Error(`Invalid base URL: ${baseUrl}`);
+    }
+
+    const extraction = resolveExtraction(baseUrl, options);
+    const document = parseHtml(html);
+    const metadata = frontMatter && !jsonFormat ? extractMetadata(document, baseUrl) : undefined;
+    const result = convertHtmlDocument(document, baseUrl ?? "", "html", preserveImages, jsonFormat, extraction, options.linkStyle);
+    if (metadata) {
+        result.content = withFrontMatter(result.content, { ...metadata, title: metadata.title ?? result.title }, {
+            url: baseUrl,
+            strategy: "html",
+        });
+    }
     return {
         ...result,
         elapsed: Date.now() - startTime,
@@ -178,6 +521,51 @@ export async function handleConversion(url: string, options: ConversionOptions):
     };
 }
 
+// ============== Metadata ==============
+export interface MetadataResult extends MetadataReport {
+    url: string;
+    strategy: string;
+    elapsed: number;
+    attempts?: StrategyAttempt[];
+}
+
+/**
+ * Fetch a URL and extract its metadata without converting the content
+ */
+export async function fetchMetadata(
+    url: string,
+    options: Pick<ConversionOptions, "bypass" | "strategy">,
+    signal?: AbortSignal,
+): Promise<MetadataResult> {
+    const startTime = Date.now();
+    const fetchResult = await fetchHtmlWithStrategies(url, {
+        bypass: options.bypass,
+        strategy: options.strategy,
+        signal,
+    });
+    if (!fetchResult.success) {
+        throw new ConversionError(fetchResult.error || "Failed to fetch content", fetchResult.attempts, fetchResult.rule);
+    }
+
+    let report: MetadataReport = { raw: { jsonLd: [], openGraph: {}, twitter: {}, dublinCore: {}, meta: {} } };
+    if (fetchResult.html) {
+        report = extractMetadataReport(parseHtml(fetchResult.html), url);
+    } else if (fetchResult.pdf) {
+        // PDFs only carry a document title and author
+        const pdf = await pdfToMarkdown(fetchResult.pdf);
+        report.title = pdf.title;
+        report.authors = pdf.author ? [pdf.author] : undefined;
+    }
+
+    return {
+        url,
+        strategy: fetchResult.strategy,
+        elapsed: Date.now() - startTime,
+        ...report,
+        attempts: fetchResult.attempts,
+    };
+}
+
 /**
  * Parse form data to conversion options
  */
@@ -185,10 +573,18 @@ export function parseFormOptions(formData: FormData): ConversionOptions {
     return {
         bypass: !!formData.get("bypass"),
         preserveImages: formData.get("images") !== "false", // Default true
-        strategy: formData.get("strategy") as Strategy | undefined,
+        strategy: parseStrategy(formData.get("strategy") as string | null),
         download: !!formData.get("download"),
         jsonFormat: !!formData.get("json"),
+        frontMatter: !!formData.get("frontmatter"),
+        extractor: parseExtractor(formData.get("extractor") as string | null),
+        includeSelector: (formData.get("include_selector") as string | null)?.trim() || undefined,
+        excludeSelector: (formData.get("exclude_selector") as string | null)?.trim() || undefined,
+        followPages: parsePageLimit(formData.get("follow_pages") as string | null),
+        comments: parseCommentStyle(formData.get("comments") as string | null),
+        linkStyle: parseLinkStyle(formData.get("link_style") as string | null),
         useCache: formData.get("cache") !== "false", // Default true
+        cacheTtl: parseTtl(formData.get("cache_ttl") as string | null),
     };
 }
 
@@ -199,9 +595,92 @@ export function parseQueryOptions(searchParams: URLSearchParams): ConversionOpti
     return {
         bypass: searchParams.get("bypass") === "true",
         preserveImages: searchParams.get("images") !== "false",
-        strategy: searchParams.get("strategy") as Strategy | undefined,
+        strategy: parseStrategy(searchParams.get("strategy")),
         download: false,
         jsonFormat: searchParams.get("format") === "json",
+        frontMatter: searchParams.get("format") === "frontmatter",
+        extractor: parseExtractor(searchParams.get("extractor")),
+        includeSelector: searchParams.get("include_selector")?.trim() || undefined,
+        excludeSelector: searchParams.get("exclude_selector")?.trim() || undefined,
+        followPages: parsePageLimit(searchParams.get("follow_pages")),
+        comments: parseCommentStyle(searchParams.get("comments")),
+        linkStyle: parseLinkStyle(searchParams.get("link_style")),
         useCache: searchParams.get("cache") !== "false",
+        cacheTtl: parseTtl(searchParams.get("cache_ttl")),
+        debug: searchParams.get("debug") === "true",
     };
 }
+
+/**
+ * Read HTML and options from a POST /api/convert request.
+ * Accepts a raw HTML body (options in the query string), a JSON body
+ * ({ html, base_url, format, images }) or form fields of the same names.
+ * `format` is json, frontmatter or omitted for plain Markdown.
+ */
+export async function parseHtmlRequest(
+    request: Request,
+    searchParams: URLSearchParams,
+): Promise<{ html: string; options: HtmlConversionOptions }> {
+    const contentType = request.headers.get("content-type") || "";
+    const fields = new Map<string, string>();
+    let html: string;
+
+    if (contentType.includes("application/json")) {
+        const body = await request.json() as Record<string, unknown>;
+        for (const [name, value] of Object.entries(body)) {
+            if (value !== undefined && value !== null) fields.set(name, String(value));
+        }
+        html = fields.get("html") ?? "";
+    } else if (contentType.includes("form")) {
+        const formData = await request.formData();
+        for (const [name, value] of formData) {
+            if (typeof value === "string") fields.set(name, value);
+        }
+        const file = formData.get("html");
+        html = file instanceof File ? await file.text() : fields.get("html") ?? "";
+    } else {
+        html = await request.text();
+    }
+
+    const field = (name: string) => fields.get(name) ?? searchParams.get(name) ?? undefined;
+    return {
+        html,
+        options: {
+            baseUrl: field("base_url") ?? field("baseUrl"),
+            preserveImages: field("images") !== "false",
+            jsonFormat: field("format") === "json" || field("json") === "true",
+            frontMatter: field("format") === "frontmatter" || field("frontmatter") === "true",
+            extractor: parseExtractor(field("extractor")),
+            includeSelector: field("include_selector")?.trim() || undefined,
+            excludeSelector: field("exclude_selector")?.trim() || undefined,
+            comments: parseCommentStyle(field("comments")),
+            linkStyle: parseLinkStyle(field("link_style")),
+        },
+    };
+}
+
+/**
+ * Extraction settings for a page: each one as requested, else the domain rule's, else the default
+ * (comments are only rendered on request)
+ */
+function resolveExtraction(
+    url: string | undefined,
+    requested: Pick<ConversionOptions, "extractor" | "includeSelector" | "excludeSelector" | "comments">,
+): ExtractionOptions {
+    const rule = url ? findRule(url) : undefined;
+    return {
+        extractor: requested.extractor ?? rule?.extractor ?? getDefaultExtractor(),
+        includeSelector: requested.includeSelector ?? rule?.includeSelector,
+        excludeSelector: requested.excludeSelector ?? rule?.excludeSelector,
+        comments: requested.comments,
+    };
+}
+
+/**
+ * Parse a cache TTL given in seconds
+ */
+function parseTtl(value: string | null): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+}
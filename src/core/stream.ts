@@ -0,0 +1,183 @@
+/**
+ * Streaming Multi-URL Conversion
+ * Converts several URLs concurrently and hands back each result as soon as it
+ * finishes, as NDJSON lines or Server-Sent Events (used by /api/stream and
+ * the fetch_urls MCP tool).
+ */
+
+import { parseStrategy } from "../strategies/mod.ts";
+import { readEnv } from "../utils.ts";
+import { handleConversion, type ConversionOptions } from "./conversion.ts";
+
+export interface UrlResult {
+    /** Position of the URL in the request */
+    index: number;
+    url: string;
+    status: "converted" | "failed";
+    strategy?: string;
+    elapsed: number;
+    fromCache?: boolean;
+    title?: string;
+    content?: string;
+    error?: string;
+}
+
+export interface StreamSummary {
+    total: number;
+    successful: number;
+    failed: number;
+    elapsed: number;
+}
+
+export type StreamFormat = "ndjson" | "sse";
+
+export interface StreamRequest {
+    urls: string[];
+    options: ConversionOptions;
+    concurrency: number;
+    format: StreamFormat;
+}
+
+const MAX_URLS = Number(readEnv("STREAM_MAX_URLS") || 100);
+const DEFAULT_CONCURRENCY = 3;
+const MAX_CONCURRENCY = 10;
+// Values of the flags a request leaves out
+const DEFAULT_FLAGS = { bypass: false, images: true, cache: true };
+
+/**
+ * Convert URLs with at most `concurrency` in flight, yielding results in completion order
+ */
+export async function* convertMany(
+    urls: string[],
+    options: ConversionOptions,
+    signal?: AbortSignal,
+    concurrency = DEFAULT_CONCURRENCY,
+): AsyncGenerator<UrlResult> {
+    const running = new Map<number, Promise<UrlResult>>();
+    let next = 0;
+
+    const launch = () => {
+        const index = next++;
+        running.set(index, convertOne(index, urls[index], options, signal));
+    };
+
+    while (next < urls.length && running.size < concurrency) launch();
+
+    while (running.size > 0) {
+        const result = await Promise.race(running.values());
+        running.delete(result.index);
+        if (next < urls.length && !signal?.aborted) launch();
+        yield result;
+    }
+}
+
+async function convertOne(index: number, url: string, options: ConversionOptions, signal?: AbortSignal): Promise<UrlResult> {
+    const start = Date.now();
+    try {
+        const result = await handleConversion(url, options, signal);
+        return {
+            index,
+            url,
+            status: "converted",
+            strategy: result.strategy,
+            elapsed: result.elapsed,
+            fromCache: result.fromCache,
+            title: result.title,
+            content: result.content,
+        };
+    } catch (error) {
+        return {
+            index,
+            url,
+            status: "failed",
+            elapsed: Date.now() - start,
+            error: error instanceof Error ? error.message : String(error),
+        };
+    }
+}
+
+/**
+ * Encode results as they arrive: one "result" event per URL, then a "done" summary
+ */
+export function streamResults(request: StreamRequest, signal?: AbortSignal): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    const encode = (type: "result" | "done", data: UrlResult | StreamSummary) =>
+        encoder.encode(
+            request.format === "sse"
+                ? `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`
+                : `${JSON.stringify({ type, ...data })}\n`,
+        );
+
+    const start = Date.now();
+    const results = convertMany(request.urls, request.options, signal, request.concurrency);
+    let successful = 0;
+    let failed = 0;
+
+    return new ReadableStream<Uint8Array>({
+        async pull(controller): Promise<void> {
+            const { value, done } = await results.next();
+            if (done) {
+                controller.enqueue(encode("done", {
+                    total: request.urls.length,
+                    successful,
+                    failed,
+                    elapsed: Date.now() - start,
+                }));
+                controller.close();
+                return;
+            }
+            if (value.status === "converted") successful++;
+            else failed++;
+            controller.enqueue(encode("result", value));
+        },
+        async cancel(): Promise<void> {
+            await results.return(undefined);
+        },
+    });
+}
+
+/**
+ * Read a stream request: repeated `url` query parameters, or a JSON body
+ * ({ urls, bypass, images, strategy, format, concurrency }).
+ * SSE is chosen with `stream=sse` or an `Accept: text/event-stream` header.
+ */
+export async function parseStreamRequest(request: Request, searchParams: URLSearchParams): Promise<StreamRequest> {
+    const body = request.method === "POST" ? await request.json() as Record<string, unknown> : {};
+    const param = (name: string): unknown => body[name] ?? searchParams.get(name) ?? undefined;
+
+    const urls = Array.isArray(body.urls)
+        ? body.urls.map((value) => String(value).trim()).filter(Boolean)
+        : searchParams.getAll("url");
+    if (urls.length === 0) {
+        throw new Error("Missing 'urls'");
+    }
+    if (urls.length > MAX_URLS) {
+        throw new Error(`Too many URLs (${urls.length}, limit ${MAX_URLS})`);
+    }
+    const invalid = urls.find((url) => !URL.canParse(url));
+    if (invalid) {
+        throw new Error(`Invalid URL: ${invalid}`);
+    }
+
+    const flag = (name: keyof typeof DEFAULT_FLAGS) => {
+        const value = param(name);
+        return value === undefined ? DEFAULT_FLAGS[name] : value === true || value === "true";
+    };
+    const strategy = param("strategy");
+    const concurrency = Number(param("concurrency")) || DEFAULT_CONCURRENCY;
+    const sse = param("stream") === "sse" || (request.headers.get("accept") || "").includes("text/event-stream");
+
+    return {
+        urls,
+        options: {
+            bypass: flag("bypass"),
+            preserveImages: flag("images"),
+            strategy: parseStrategy(typeof strategy === "string" ? strategy : null),
+            download: false,
+            jsonFormat: param("format") === "json",
+            useCache: flag("cache"),
+        },
+        concurrency: Math.min(Math.max(Math.floor(concurrency), 1), MAX_CONCURRENCY),
+        format: sse ? "sse" : "ndjson",
+    };
+}
@@ -0,0 +1,356 @@
+/**
+ * Crawl Module
+ * Converts a whole site section: starts at a seed URL, follows same-origin
+ * links breadth-first up to a depth and page limit, filters paths with
+ * include/exclude globs, honours robots.txt, and keeps a manifest plus the
+ * Markdown of every page.
+ *
+ * Jobs live in memory and are dropped CRAWL_JOB_TTL seconds after finishing.
+ */
+
+import { handleConversion, type ConversionOptions } from "../core/conversion.ts";
+import { parseStrategy, type Strategy } from "../strategies/mod.ts";
+import { readEnv } from "../utils.ts";
+import { fetchRobots, type RobotsPolicy } from "./robots.ts";
+
+export interface CrawlOptions {
+    /** Seed URL; only links on its origin are followed */
+    url: string;
+    /** Link hops from the seed (default 2) */
+    maxDepth?: number;
+    /** Pages to convert, including the seed (default 25, capped by CRAWL_MAX_PAGES) */
+    maxPages?: number;
+    /** Path globs a page must match (e.g. "/docs/**"); empty means all */
+    include?: string[];
+    /** Path globs that exclude a page */
+    exclude?: string[];
+    /** Honour robots.txt (default true) */
+    respectRobots?: boolean;
+    bypass?: boolean;
+    preserveImages?: boolean;
+    strategy?: Strategy;
+}
+
+export type CrawlStatus = "running" | "completed" | "cancelled" | "failed";
+
+export interface CrawlPage {
+    url: string;
+    depth: number;
+    status: "converted" | "failed" | "disallowed";
+    title?: string;
+    strategy?: string;
+    /** Size of the Markdown in characters */
+    length?: number;
+    fromCache?: boolean;
+    error?: string;
+    /** Page Markdown, only when requested */
+    content?: string;
+}
+
+export interface CrawlManifest {
+    id: string;
+    seed: string;
+    status: CrawlStatus;
+    options: Required<Pick<CrawlOptions, "maxDepth" | "maxPages" | "include" | "exclude" | "respectRobots">>;
+    createdAt: string;
+    finishedAt?: string;
+    /** Links discovered but not yet converted */
+    queued: number;
+    pages: CrawlPage[];
+    error?: string;
+}
+
+interface CrawlJob {
+    manifest: CrawlManifest;
+    /** Markdown by page URL */
+    content: Map<string, string>;
+    controller: AbortController;
+    done: Promise<void>;
+    finishedAt?: number;
+}
+
+const DEFAULT_MAX_DEPTH = 2;
+const DEFAULT_MAX_PAGES = 25;
+const MAX_PAGES_LIMIT = Number(readEnv("CRAWL_MAX_PAGES") || 200);
+const CONCURRENCY = Number(readEnv("CRAWL_CONCURRENCY") || 3);
+const JOB_TTL_MS = Number(readEnv("CRAWL_JOB_TTL") || 3600) * 1000;
+
+// Links to files we cannot convert
+const SKIPPED_EXTENSIONS = /\.(png|jpe?g|gif|webp|svg|ico|bmp|tiff?|mp[34]|m4a|wav|ogg|webm|mov|avi|zip|gz|tgz|rar|7z|tar|dmg|exe|msi|apk|css|js|mjs|json|xml|rss|woff2?|ttf|eot|otf)$/i;
+
+const jobs = new Map<string, CrawlJob>();
+
+/**
+ * Start a crawl in the background and return its manifest
+ */
+export function startCrawl(options: CrawlOptions): CrawlManifest {
+    pruneJobs();
+
+    const seed = new URL(options.url);
+    seed.hash = "";
+
+    const manifest: CrawlManifest = {
+        id: crypto.randomUUID(),
+        seed: seed.href,
+        status: "running",
+        options: {
+            maxDepth: clamp(options.maxDepth ?? DEFAULT_MAX_DEPTH, 0, 10),
+            maxPages: clamp(options.maxPages ?? DEFAULT_MAX_PAGES, 1, MAX_PAGES_LIMIT),
+            include: options.include ?? [],
+            exclude: options.exclude ?? [],
+            respectRobots: options.respectRobots ?? true,
+        },
+        createdAt: new Date().toISOString(),
+        queued: 1,
+        pages: [],
+    };
+
+    const job: CrawlJob = {
+        manifest,
+        content: new Map(),
+        controller: new AbortController(),
+        done: Promise.resolve(),
+    };
+    jobs.set(manifest.id, job);
+
+    job.done = runCrawl(job, options)
+        .then(() => {
+            if (manifest.status === "running") manifest.status = "completed";
+        })
+        .catch((error) => {
+            manifest.status = job.controller.signal.aborted ? "cancelled" : "failed";
+            manifest.error = error instanceof Error ? error.message : String(error);
+        })
+        .finally(() => {
+            manifest.finishedAt = new Date().toISOString();
+            job.finishedAt = Date.now();
+            console.log(`[Crawl] ${manifest.id} ${manifest.status}: ${manifest.pages.length} page(s) from ${manifest.seed}`);
+        });
+
+    console.log(`[Crawl] Started ${manifest.id} at ${manifest.seed}`);
+    return manifest;
+}
+
+/**
+ * Get a job's manifest, optionally with each page's Markdown
+ */
+export function getCrawl(id: string, includeContent = false): CrawlManifest | undefined {
+    pruneJobs();
+    const job = jobs.get(id);
+    if (!job) return undefined;
+    if (!includeContent) return job.manifest;
+    return {
+        ...job.manifest,
+        pages: job.manifest.pages.map((page) => ({ ...page, content: job.content.get(page.url) })),
+    };
+}
+
+/**
+ * Wait for a job to finish (or for the signal to abort)
+ */
+export async function waitForCrawl(id: string, signal?: AbortSignal): Promise<void> {
+    const job = jobs.get(id);
+    if (!job) return;
+    if (!signal) return await job.done;
+
+    await new Promise<void>((resolve, reject) => {
+        const onAbort = () => reject(signal.reason ?? new Error("Aborted"));
+        if (signal.aborted) return onAbort();
+        signal.addEventListener("abort", onAbort, { once: true });
+        job.done.then(resolve).finally(() => signal.removeEventListener("abort", onAbort));
+    });
+}
+
+/**
+ * Stop a running job; pages converted so far are kept
+ */
+export function cancelCrawl(id: string): boolean {
+    const job = jobs.get(id);
+    if (!job) return false;
+    if (job.manifest.status === "running") {
+        job.manifest.status = "cancelled";
+        job.controller.abort(new Error("Crawl cancelled"));
+    }
+    return true;
+}
+
+/**
+ * Concatenate a finished job's pages into one Markdown document
+ */
+export function crawlToMarkdown(id: string): string | undefined {
+    const job = jobs.get(id);
+    if (!job) return undefined;
+    return job.manifest.pages
+        .filter((page) => job.content.has(page.url))
+        .map((page) => `<!-- Source: ${page.url} -->\n\n${job.content.get(page.url)}`)
+        .join("\n\n---\n\n");
+}
+
+async function runCrawl(job: CrawlJob, options: CrawlOptions): Promise<void> {
+    const { manifest, content, controller } = job;
+    const { signal } = controller;
+    const { maxDepth, maxPages, include, exclude, respectRobots } = manifest.options;
+    const origin = new URL(manifest.seed).origin;
+
+    const robots: RobotsPolicy | undefined = respectRobots ? await fetchRobots(manifest.seed, signal) : undefined;
+    // A crawl delay forces one request at a time
+    const concurrency = robots?.crawlDelay ? 1 : CONCURRENCY;
+
+    const includeRes = include.map(globToRegExp);
+    const excludeRes = exclude.map(globToRegExp);
+    const inScope = (url: URL) =>
+        url.origin === origin &&
+        !SKIPPED_EXTENSIONS.test(url.pathname) &&
+        (includeRes.length === 0 || includeRes.some((re) => re.test(url.pathname))) &&
+        !excludeRes.some((re) => re.test(url.pathname));
+
+    const conversion: ConversionOptions = {
+        bypass: options.bypass ?? false,
+        preserveImages: options.preserveImages ?? true,
+        strategy: options.strategy,
+        download: false,
+        jsonFormat: false,
+        useCache: true,
+        collectLinks: true,
+        // Pages redirecting off-origin fail instead of being converted
+        origin,
+    };
+
+    const seen = new Set<string>([manifest.seed]);
+    let level = [manifest.seed];
+    let converted = 0;
+
+    for (let depth = 0; depth <= maxDepth && level.length > 0; depth++) {
+        const next: string[] = [];
+
+        const visit = async (url: string) => {
+            if (signal.aborted || converted >= maxPages) return;
+
+            if (robots && !robots.isAllowed(url)) {
+                manifest.pages.push({ url, depth, status: "disallowed", error: "Disallowed by robots.txt" });
+                return;
+            }
+
+            converted++;
+            try {
+                const result = await handleConversion(url, conversion, signal);
+                content.set(url, result.content);
+                manifest.pages.push({
+                    url,
+                    depth,
+                    status: "converted",
+                    title: result.title,
+                    strategy: result.strategy,
+                    length: result.content.length,
+                    fromCache: result.fromCache,
+                });
+
+                if (depth < maxDepth) {
+                    for (const link of result.links ?? []) {
+                        const parsed = new URL(link);
+                        if (!seen.has(parsed.href) && inScope(parsed)) {
+                            seen.add(parsed.href);
+                            next.push(parsed.href);
+                        }
+                    }
+                }
+            } catch (error) {
+                if (signal.aborted) return;
+                manifest.pages.push({
+                    url,
+                    depth,
+                    status: "failed",
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+
+            if (robots?.crawlDelay) {
+                await new Promise((resolve) => setTimeout(resolve, robots.crawlDelay));
+            }
+        };
+
+        // Process the level in batches of CONCURRENCY
+        for (let i = 0; i < level.length && !signal.aborted && converted < maxPages; i += concurrency) {
+            await Promise.all(level.slice(i, i + concurrency).map(visit));
+            manifest.queued = Math.max(0, level.length - i - concurrency) + next.length;
+        }
+
+        level = next;
+        manifest.queued = Math.min(next.length, Math.max(0, maxPages - converted));
+    }
+
+    manifest.queued = 0;
+    if (signal.aborted) {
+        throw signal.reason ?? new Error("Crawl cancelled");
+    }
+}
+
+/**
+ * Read crawl options from a JSON request body (snake_case or camelCase keys)
+ */
+export function parseCrawlOptions(body: Record<string, unknown>): CrawlOptions {
+    const field = (snake: string, camel: string) => body[snake] ?? body[camel];
+    const number = (snake: string, camel: string) => {
+        const value = field(snake, camel);
+        if (value === undefined || value === null || value === "") return undefined;
+        const parsed = Number(value);
+        if (!Number.isFinite(parsed)) throw new Error(`Invalid '${snake}': ${value} (use a number)`);
+        return parsed;
+    };
+    const list = (value: unknown): string[] | undefined => {
+        if (value === undefined || value === null) return undefined;
+        const items = Array.isArray(value) ? value : String(value).split(",");
+        return items.map((item) => String(item).trim()).filter(Boolean);
+    };
+
+    const url = body.url;
+    if (typeof url !== "string" || !URL.canParse(url)) {
+        throw new Error("Missing or invalid 'url'");
+    }
+
+    return {
+        url,
+        maxDepth: number("max_depth", "maxDepth"),
+        maxPages: number("max_pages", "maxPages"),
+        include: list(body.include),
+        exclude: list(body.exclude),
+        respectRobots: field("respect_robots", "respectRobots") !== false,
+        bypass: body.bypass === true,
+        preserveImages: field("images", "preserveImages") !== false,
+        strategy: parseStrategy(typeof body.strategy === "string" ? body.strategy : undefined),
+    };
+}
+
+/**
+ * Convert a path glob to a RegExp: `**` matches across segments, `*` and `?` within one
+ */
+export function globToRegExp(glob: string): RegExp {
+    let source = "";
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === "*" && glob[i + 1] === "*") {
+            source += ".*";
+            i++;
+        } else if (char === "*") {
+            source += "[^/]*";
+        } else if (char === "?") {
+            source += "[^/]";
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(Math.max(Math.floor(value), min), max);
+}
+
+function pruneJobs(): void {
+    const now = Date.now();
+    for (const [id, job] of jobs) {
+        if (job.finishedAt !== undefined && now - job.finishedAt > JOB_TTL_MS) {
+            jobs.delete(id);
+        }
+    }
+}
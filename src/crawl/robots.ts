@@ -0,0 +1,149 @@
+/**
+ * robots.txt Support
+ * Fetches and evaluates robots.txt per origin following RFC 9309:
+ * the most specific (longest) matching rule wins, Allow wins ties,
+ * a missing file allows everything and an unreachable one disallows everything.
+ */
+
+import { readEnv } from "../utils.ts";
+
+export const CRAWLER_USER_AGENT = "url-to-markdown";
+
+interface RobotsRule {
+    allow: boolean;
+    pattern: string;
+    regex: RegExp;
+}
+
+export interface RobotsPolicy {
+    isAllowed(url: string): boolean;
+    /** Crawl-delay in milliseconds, when the file sets one (capped by CRAWL_MAX_DELAY) */
+    crawlDelay?: number;
+}
+
+const ROBOTS_TIMEOUT_MS = 10000;
+// Longest Crawl-delay honoured, in seconds; larger values would stall a crawl for hours
+const MAX_CRAWL_DELAY_MS = Number(readEnv("CRAWL_MAX_DELAY") || 10) * 1000;
+
+const ALLOW_ALL: RobotsPolicy = { isAllowed: () => true };
+const DISALLOW_ALL: RobotsPolicy = { isAllowed: () => false };
+
+/**
+ * Fetch and parse robots.txt for the URL's origin
+ */
+export async function fetchRobots(url: string, signal?: AbortSignal): Promise<RobotsPolicy> {
+    const robotsUrl = new URL("/robots.txt", url).href;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), ROBOTS_TIMEOUT_MS);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+        const response = await fetch(robotsUrl, {
+            headers: { "User-Agent": `${CRAWLER_USER_AGENT}/1.0` },
+            signal: controller.signal,
+        });
+        if (response.status >= 400 && response.status < 500) {
+            await response.body?.cancel();
+            return ALLOW_ALL;
+        }
+        if (!response.ok) {
+            await response.body?.cancel();
+            console.warn(`[Robots] ${robotsUrl} returned HTTP ${response.status}, treating site as disallowed`);
+            return DISALLOW_ALL;
+        }
+        return parseRobots(await response.text());
+    } catch (error) {
+        console.warn(`[Robots] Could not fetch ${robotsUrl}:`, error instanceof Error ? error.message : error);
+        return DISALLOW_ALL;
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+    }
+}
+
+/**
+ * Parse robots.txt and select the group for our user agent (falling back to "*")
+ */
+export function parseRobots(text: string, userAgent = CRAWLER_USER_AGENT): RobotsPolicy {
+    interface Group {
+        agents: string[];
+        rules: RobotsRule[];
+        crawlDelay?: number;
+    }
+
+    const groups: Group[] = [];
+    let current: Group | undefined;
+    let lastWasAgent = false;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*$/, "").trim();
+        const separator = line.indexOf(":");
+        if (separator === -1) continue;
+
+        const field = line.slice(0, separator).trim().toLowerCase();
+        const value = line.slice(separator + 1).trim();
+
+        if (field === "user-agent") {
+            // Consecutive user-agent lines share one group
+            if (!current || !lastWasAgent) {
+                current = { agents: [], rules: [] };
+                groups.push(current);
+            }
+            current.agents.push(value.toLowerCase());
+            lastWasAgent = true;
+            continue;
+        }
+        lastWasAgent = false;
+        if (!current) continue;
+
+        if (field === "allow" || field === "disallow") {
+            // An empty Disallow allows everything
+            if (!value) continue;
+            current.rules.push({ allow: field === "allow", pattern: value, regex: patternToRegex(value) });
+        } else if (field === "crawl-delay") {
+            const seconds = Number(value);
+            if (Number.isFinite(seconds) && seconds > 0) current.crawlDelay = Math.min(seconds * 1000, MAX_CRAWL_DELAY_MS);
+        }
+    }
+
+    const agent = userAgent.toLowerCase();
+    const matching = groups.filter((g) => g.agents.some((a) => a !== "*" && agent.includes(a)));
+    const selected = matching.length > 0 ? matching : groups.filter((g) => g.agents.includes("*"));
+    if (selected.length === 0) return ALLOW_ALL;
+
+    const rules = selected.flatMap((g) => g.rules);
+    const crawlDelay = selected.find((g) => g.crawlDelay !== undefined)?.crawlDelay;
+
+    return {
+        crawlDelay,
+        isAllowed(url: string): boolean {
+            const { pathname, search } = new URL(url);
+            const path = pathname + search;
+            let best: RobotsRule | undefined;
+            for (const rule of rules) {
+                if (!rule.regex.test(path)) continue;
+                if (
+                    !best ||
+                    rule.pattern.length > best.pattern.length ||
+                    (rule.pattern.length === best.pattern.length && rule.allow)
+                ) {
+                    best = rule;
+                }
+            }
+            return best ? best.allow : true;
+        },
+    };
+}
+
+/**
+ * Convert a robots.txt path pattern (with * and $) to a prefix regex
+ */
+function patternToRegex(pattern: string): RegExp {
+    const anchored = pattern.endsWith("$");
+    const body = (anchored ? pattern.slice(0, -1) : pattern)
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*");
+    return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
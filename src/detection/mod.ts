@@ -0,0 +1,200 @@
+/**
+ * Block / Paywall Detection
+ * Scores a fetched page against weighted rules and signals and explains the
+ * verdict (score, matched rule ids and the offending snippet). Domains can
+ * tune or disable rules through the `detection` field of a domain rule.
+ */
+
+import { findRule } from "../rules.ts";
+import {
+    DEFAULT_THRESHOLD,
+    HEAD_LENGTH,
+    PATTERN_RULES,
+    RICH_TEXT_LENGTH,
+    SIGNAL_WEIGHTS,
+    THIN_TEXT_LENGTH,
+    type DetectionKind,
+    type SignalId,
+} from "./patterns.ts";
+
+export { PATTERN_RULES, SIGNAL_WEIGHTS, type DetectionKind, type PatternRule } from "./patterns.ts";
+
+export interface DetectionMatch {
+    rule: string;
+    kind: DetectionKind;
+    weight: number;
+    /** Text around the match, or the signal value */
+    snippet: string;
+}
+
+export interface DetectionVerdict {
+    blocked: boolean;
+    paywalled: boolean;
+    scores: Record<DetectionKind, number>;
+    threshold: number;
+    matches: DetectionMatch[];
+    /** Length of the visible text (drives the thin-text and rich-text signals) */
+    textLength: number;
+}
+
+/**
+ * Response details that feed the non-pattern signals
+ */
+export interface DetectionSignals {
+    /** Page URL, used to look up domain overrides */
+    url?: string;
+    status?: number;
+    headers?: Record<string, string>;
+}
+
+// Response headers worth keeping for detection
+const SIGNAL_HEADERS = ["cf-ray", "cf-mitigated", "server"];
+const SNIPPET_RADIUS = 40;
+// Signals too common on ordinary pages to reject one without other evidence
+const CIRCUMSTANTIAL: ReadonlySet<string> = new Set(["signal.cf-ray", "signal.thin-text"]);
+
+/**
+ * Pick the response headers used as detection signals
+ */
+export function signalHeaders(headers: Headers): Record<string, string> | undefined {
+    const picked: Record<string, string> = {};
+    for (const name of SIGNAL_HEADERS) {
+        const value = headers.get(name);
+        if (value) picked[name] = value;
+    }
+    return Object.keys(picked).length > 0 ? picked : undefined;
+}
+
+/**
+ * Score a page and explain whether it is a block page or a paywall
+ */
+export function detect(html: string, signals: DetectionSignals = {}): DetectionVerdict {
+    const override = signals.url ? findRule(signals.url)?.detection : undefined;
+    const matches: DetectionMatch[] = [];
+
+    const add = (rule: string, kind: DetectionKind, defaultWeight: number, snippet: string) => {
+        if (override?.disable?.includes(rule)) return;
+        const weight = override?.weights?.[rule] ?? defaultWeight;
+        if (weight !== 0) matches.push({ rule, kind, weight, snippet });
+    };
+
+    const title = extractTitle(html);
+    for (const rule of PATTERN_RULES) {
+        const text = rule.scope === "title" ? title : html.slice(0, HEAD_LENGTH[rule.kind]);
+        const match = rule.pattern.exec(text);
+        if (match) add(rule.id, rule.kind, rule.weight, snippetAround(text, match.index, match[0].length));
+    }
+
+    const signal = (id: SignalId, kind: DetectionKind, snippet: string) => add(id, kind, SIGNAL_WEIGHTS[id], snippet);
+
+    const { status, headers } = signals;
+    if (status === 403 || status === 429 || status === 503) {
+        signal("signal.http-status", "blocked", `HTTP ${status}`);
+    } else if (status === 402) {
+        signal("signal.http-payment-required", "paywall", `HTTP ${status}`);
+    }
+    if (headers?.["cf-mitigated"]) {
+        signal("signal.cf-mitigated", "blocked", `cf-mitigated: ${headers["cf-mitigated"]}`);
+    }
+    if (headers?.["cf-ray"]) {
+        signal("signal.cf-ray", "blocked", `cf-ray: ${headers["cf-ray"]}`);
+    }
+
+    const textLength = visibleText(html).length;
+    if (textLength < THIN_TEXT_LENGTH) {
+        signal("signal.thin-text", "blocked", `${textLength} visible characters`);
+    } else if (textLength >= RICH_TEXT_LENGTH) {
+        // Counts against both verdicts
+        signal("signal.rich-text", "blocked", `${textLength} visible characters`);
+        signal("signal.rich-text", "paywall", `${textLength} visible characters`);
+    }
+
+    const scores: Record<DetectionKind, number> = { blocked: 0, paywall: 0 };
+    for (const match of matches) {
+        scores[match.kind] += match.weight;
+    }
+    scores.blocked = round(scores.blocked);
+    scores.paywall = round(scores.paywall);
+
+    const threshold = override?.threshold ?? DEFAULT_THRESHOLD;
+    const hasEvidence = (kind: DetectionKind) =>
+        matches.some((m) => m.kind === kind && m.weight > 0 && !CIRCUMSTANTIAL.has(m.rule));
+
+    return {
+        blocked: scores.blocked >= threshold && hasEvidence("blocked"),
+        paywalled: scores.paywall >= threshold && hasEvidence("paywall"),
+        scores,
+        threshold,
+        matches,
+        textLength,
+    };
+}
+
+/**
+ * Summarize a positive verdict for logs and attempt traces, e.g.
+ * `score 1.3 ≥ 1: block.title.just-a-moment "Just a moment...", signal.cf-ray "cf-ray: 8a…"`
+ */
+export function describeVerdict(verdict: DetectionVerdict, kind: DetectionKind): string {
+    const evidence = verdict.matches
+        .filter((m) => m.kind === kind)
+        .map((m) => `${m.rule} "${m.snippet}"`)
+        .join(", ");
+    return `score ${verdict.scores[kind]} ≥ ${verdict.threshold}: ${evidence}`;
+}
+
+/**
+ * Whether the page looks like a Cloudflare/anti-bot wall
+ */
+export function isBlocked(html: string, signals?: DetectionSignals): boolean {
+    return detect(html, signals).blocked;
+}
+
+/**
+ * Whether the page looks paywalled
+ */
+export function isPaywalled(html: string, signals?: DetectionSignals): boolean {
+    return detect(html, signals).paywalled;
+}
+
+/**
+ * Detect Google Search error/redirect pages (invalid content)
+ */
+export function isGoogleErrorPage(html: string): boolean {
+    const errorPatterns = [
+        /If you're having trouble accessing Google Search/i,
+        /click here.*send feedback/i,
+        /<title>Google Search<\/title>/i,
+        /emsg=SG_REL/i,  // Google's error redirect parameter
+    ];
+
+    const text = html.slice(0, 3000);
+    return errorPatterns.some(pattern => pattern.test(text));
+}
+
+function extractTitle(html: string): string {
+    const match = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html);
+    return match ? match[1].replace(/\s+/g, " ").trim() : "";
+}
+
+/**
+ * Approximate the visible text without parsing the document
+ */
+function visibleText(html: string): string {
+    return html
+        .replace(/<(script|style|noscript|template|svg)\b[\s\S]*?<\/\1>/gi, " ")
+        .replace(/<!--[\s\S]*?-->/g, " ")
+        .replace(/<[^>]+>/g, " ")
+        .replace(/&[a-z#0-9]+;/gi, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+function snippetAround(text: string, index: number, length: number): string {
+    const start = Math.max(0, index - SNIPPET_RADIUS);
+    const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+    return text.slice(start, end).replace(/\s+/g, " ").trim();
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,98 @@
+/**
+ * Detection Rule Catalog
+ * Weighted rules for anti-bot walls and paywalls. A single weak match (e.g. the
+ * word "captcha" in an article) no longer rejects a page on its own; a verdict
+ * is reached when the summed weights of one kind cross the threshold.
+ */
+
+export type DetectionKind = "blocked" | "paywall";
+
+/**
+ * - title: the page <title>
+ * - head: the start of the raw HTML (where walls put their markup)
+ */
+export type DetectionScope = "title" | "head";
+
+export interface PatternRule {
+    /** Stable id reported in verdicts and used by domain overrides */
+    id: string;
+    kind: DetectionKind;
+    weight: number;
+    scope: DetectionScope;
+    pattern: RegExp;
+}
+
+// Characters of raw HTML scanned by "head" rules of each kind
+export const HEAD_LENGTH: Record<DetectionKind, number> = {
+    blocked: 5000,
+    paywall: 10000,
+};
+
+export const DEFAULT_THRESHOLD = 1;
+
+export const PATTERN_RULES: PatternRule[] = [
+    // Titles of well-known challenge pages are strong evidence on their own
+    { id: "block.title.just-a-moment", kind: "blocked", weight: 1, scope: "title", pattern: /^just a moment/i },
+    { id: "block.title.attention-required", kind: "blocked", weight: 1, scope: "title", pattern: /attention required/i },
+    { id: "block.title.access-denied", kind: "blocked", weight: 1, scope: "title", pattern: /access denied|403 forbidden/i },
+    { id: "block.title.robot-check", kind: "blocked", weight: 1, scope: "title", pattern: /robot check|are you a robot|security check|one more step/i },
+    { id: "block.title.google-news", kind: "blocked", weight: 1, scope: "title", pattern: /^google news$/i },
+
+    // Challenge page copy
+    { id: "block.cloudflare-blocked", kind: "blocked", weight: 1, scope: "head", pattern: /sorry,?\s*you have been blocked/i },
+    { id: "block.checking-browser", kind: "blocked", weight: 1, scope: "head", pattern: /checking your browser/i },
+    { id: "block.completing-captcha", kind: "blocked", weight: 1, scope: "head", pattern: /completing the captcha/i },
+    { id: "block.unable-to-access", kind: "blocked", weight: 0.8, scope: "head", pattern: /you are unable to access/i },
+    { id: "block.please-wait-check", kind: "blocked", weight: 0.8, scope: "head", pattern: /please wait while we check/i },
+    { id: "block.are-you-robot", kind: "blocked", weight: 0.7, scope: "head", pattern: /are you a robot/i },
+    { id: "block.prove-human", kind: "blocked", weight: 0.7, scope: "head", pattern: /prove you're human/i },
+    { id: "block.cloudflare-ray-id", kind: "blocked", weight: 0.6, scope: "head", pattern: /cloudflare ray id/i },
+    { id: "block.robot-check", kind: "blocked", weight: 0.6, scope: "head", pattern: /robot check/i },
+    { id: "block.google-news-redirect", kind: "blocked", weight: 0.6, scope: "head", pattern: /opening this page/i },
+    { id: "block.just-a-moment", kind: "blocked", weight: 0.5, scope: "head", pattern: /just a moment/i },
+    { id: "block.verify-human", kind: "blocked", weight: 0.5, scope: "head", pattern: /please verify you are/i },
+    { id: "block.403-forbidden", kind: "blocked", weight: 0.5, scope: "head", pattern: /403 forbidden/i },
+    { id: "block.access-denied", kind: "blocked", weight: 0.4, scope: "head", pattern: /access denied/i },
+    { id: "block.security-check", kind: "blocked", weight: 0.4, scope: "head", pattern: /security check/i },
+    { id: "block.one-more-step", kind: "blocked", weight: 0.4, scope: "head", pattern: /one more step/i },
+    { id: "block.captcha", kind: "blocked", weight: 0.3, scope: "head", pattern: /captcha/i },
+    { id: "block.enable-cookies", kind: "blocked", weight: 0.3, scope: "head", pattern: /enable cookies/i },
+
+    // Paywall markup and copy
+    { id: "paywall.subscribers-only", kind: "paywall", weight: 1, scope: "head", pattern: /this article is for subscribers/i },
+    { id: "paywall.limit-reached", kind: "paywall", weight: 0.8, scope: "head", pattern: /you've reached your limit/i },
+    { id: "paywall.subscribe-to-continue", kind: "paywall", weight: 0.6, scope: "head", pattern: /subscribe.{0,20}to.{0,20}continue/i },
+    { id: "paywall.class", kind: "paywall", weight: 0.5, scope: "head", pattern: /class="[^"]*paywall[^"]*"/i },
+    { id: "paywall.id", kind: "paywall", weight: 0.5, scope: "head", pattern: /id="[^"]*paywall[^"]*"/i },
+    { id: "paywall.data-attribute", kind: "paywall", weight: 0.5, scope: "head", pattern: /data-paywall/i },
+    { id: "paywall.sign-up-to-read", kind: "paywall", weight: 0.5, scope: "head", pattern: /sign.{0,10}up.{0,20}to.{0,20}read/i },
+    { id: "paywall.login-to-view", kind: "paywall", weight: 0.4, scope: "head", pattern: /login.{0,20}to.{0,20}view/i },
+    { id: "paywall.members-only", kind: "paywall", weight: 0.3, scope: "head", pattern: /members?.{0,10}only/i },
+    { id: "paywall.free-trial", kind: "paywall", weight: 0.3, scope: "head", pattern: /start your free trial/i },
+    { id: "paywall.premium-content", kind: "paywall", weight: 0.2, scope: "head", pattern: /premium.{0,20}content/i },
+    { id: "paywall.create-account", kind: "paywall", weight: 0.2, scope: "head", pattern: /create.{0,10}an.{0,10}account/i },
+];
+
+/**
+ * Weights of the non-pattern signals (see detect())
+ */
+export const SIGNAL_WEIGHTS = {
+    /** Response status typical of walls (403, 429, 503) */
+    "signal.http-status": 0.6,
+    /** 402 Payment Required */
+    "signal.http-payment-required": 1,
+    /** Cloudflare answered with `cf-mitigated: challenge` */
+    "signal.cf-mitigated": 1,
+    /** Served through Cloudflare (`cf-ray`); weak, most such sites are fine */
+    "signal.cf-ray": 0.2,
+    /** Almost no visible text, as on interstitials */
+    "signal.thin-text": 0.3,
+    /** Plenty of visible text: this is very likely the real article */
+    "signal.rich-text": -0.6,
+} as const;
+
+export type SignalId = keyof typeof SIGNAL_WEIGHTS;
+
+// Visible text length bounds for the text signals
+export const THIN_TEXT_LENGTH = 300;
+export const RICH_TEXT_LENGTH = 3000;
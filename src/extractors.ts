@@ -0,0 +1,241 @@
+/**
+ * Main-Content Extractors
+ * Readability, Defuddle and a structural heuristic ("body"), selectable per
+ * request, per domain rule or via EXTRACTOR. "auto" runs all three and keeps
+ * the output with the best score (text length, text density, link density).
+ * CSS selectors can strip elements first or scope the output to chosen ones.
+ */
+
+import { DOMParser, type Element, type HTMLDocument } from "deno-dom";
+import { Readability } from "readability";
+import DefuddleModule from "defuddle";
+import type { CommentStyle } from "./comments.ts";
+import { readEnv } from "./utils.ts";
+
+// The UMD bundle exports the class itself; its typings describe an ES default export
+const Defuddle = DefuddleModule as unknown as typeof DefuddleModule.default;
+
+export type Extractor = "readability" | "defuddle" | "body" | "auto";
+
+export const EXTRACTORS: readonly Extractor[] = ["readability", "defuddle", "body", "auto"];
+
+export interface ExtractionOptions {
+    extractor: Extractor;
+    /** Convert only the elements matching this selector (the extractor runs if nothing matches) */
+    includeSelector?: string;
+    /** Remove elements matching this selector before extraction */
+    excludeSelector?: string;
+    /** Append the page's discussion thread after the article */
+    comments?: CommentStyle;
+}
+
+export interface ArticleContent {
+    title: string;
+    content: string;
+    author?: string;
+    siteName?: string;
+    excerpt?: string;
+    /** Extractor that produced the content */
+    extractor?: string;
+    /** Score of every extractor that ran (auto only) */
+    scores?: Record<string, number>;
+}
+
+export interface ContentScore {
+    score: number;
+    textLength: number;
+    /** Share of the text inside links */
+    linkDensity: number;
+    /** Text characters per character of HTML */
+    textDensity: number;
+}
+
+type Engine = (document: HTMLDocument, url?: string) => ArticleContent | null;
+
+// Removed by the body heuristic wherever they appear
+const NOISE_SELECTOR = "script, style, noscript, template, nav, footer, aside, form, iframe, [role=navigation], [role=contentinfo], [aria-hidden=true]";
+const CONTAINER_SELECTOR = "article, main, [role=main]";
+
+const engines: Record<Exclude<Extractor, "auto">, Engine> = {
+    readability: (document) => {
+        // Classes carry code languages, math and footnote markup for the Markdown rules
+        const article = new Readability(document, { keepClasses: true }).parse();
+        if (!article) return null;
+        return {
+            title: article.title,
+            content: article.content,
+            author: article.byline || undefined,
+            siteName: article.siteName || undefined,
+            excerpt: article.excerpt || undefined,
+        };
+    },
+
+    defuddle: (document, url) => {
+        const result = new Defuddle(document, { url }).parse();
+        if (!result.content) return null;
+        return {
+            title: result.title,
+            content: result.content,
+            author: result.author || undefined,
+            siteName: result.site || undefined,
+            excerpt: result.description || undefined,
+        };
+    },
+
+    body: (document) => {
+        const body = document.body;
+        if (!body) return null;
+
+        // The largest article/main container, else the whole body without its page header
+        let root = body;
+        let best = 0;
+        for (const container of document.querySelectorAll(CONTAINER_SELECTOR)) {
+            const length = (container.textContent || "").trim().length;
+            if (length > best) {
+                root = container as typeof body;
+                best = length;
+            }
+        }
+        const noise = root === body ? `${NOISE_SELECTOR}, body > header, [role=banner]` : NOISE_SELECTOR;
+        for (const element of [...root.querySelectorAll(noise)]) {
+            element.remove();
+        }
+
+        return {
+            title: pageTitle(document),
+            content: root.innerHTML,
+        };
+    },
+};
+
+const configured = readEnv("EXTRACTOR") as Extractor | undefined;
+const DEFAULT_EXTRACTOR: Extractor = configured && EXTRACTORS.includes(configured) ? configured : "readability";
+
+/**
+ * Validate an extractor name; empty means "use the default"
+ */
+export function parseExtractor(value: string | null | undefined): Extractor | undefined {
+    if (!value) return undefined;
+    if (!EXTRACTORS.includes(value as Extractor)) {
+        throw new Error(`Unknown extractor "${value}". Available: ${EXTRACTORS.join(", ")}`);
+    }
+    return value as Extractor;
+}
+
+export function getDefaultExtractor(): Extractor {
+    return DEFAULT_EXTRACTOR;
+}
+
+/**
+ * Extract the main content with the given extractor.
+ * A single extractor that finds nothing falls back to the body heuristic.
+ * @param url - Page URL (Defuddle uses it for site-specific handling)
+ */
+export function extractContent(document: HTMLDocument, options: ExtractionOptions, url?: string): ArticleContent {
+    const { extractor, includeSelector, excludeSelector } = options;
+
+    if (excludeSelector) {
+        for (const element of select(document, excludeSelector, "exclude_selector")) {
+            element.remove();
+        }
+    }
+    if (includeSelector) {
+        const scoped = selectContent(document, includeSelector);
+        if (scoped) return scoped;
+        console.warn(`[Extractor] include_selector "${includeSelector}" matched nothing, using ${extractor}`);
+    }
+
+    if (extractor !== "auto") {
+        const article = run(extractor, document, url);
+        if (article) return article;
+        const fallback = extractor === "body" ? null : run("body", document, url);
+        if (fallback) return fallback;
+        throw new Error("Could not find main article or body content");
+    }
+
+    // Engines modify the document, so each one gets a fresh parse
+    const html = document.documentElement?.outerHTML ?? "";
+    const scores: Record<string, number> = {};
+    let best: ArticleContent | undefined;
+    let bestScore = -1;
+
+    for (const name of ["readability", "defuddle", "body"] as const) {
+        const copy = new DOMParser().parseFromString(html, "text/html");
+        const article = copy ? run(name, copy, url) : null;
+        if (!article) continue;
+        const { score } = scoreContent(article.content);
+        scores[name] = score;
+        if (score > bestScore) {
+            best = article;
+            bestScore = score;
+        }
+    }
+
+    if (!best) throw new Error("Could not find main article or body content");
+    console.log(`[Extractor] auto picked ${best.extractor} (${Object.entries(scores).map(([name, score]) => `${name}=${score}`).join(", ")})`);
+    return { ...best, scores };
+}
+
+/**
+ * Score extracted HTML: long, dense text with few links ranks highest.
+ * Length counts with diminishing returns so that boilerplate around an
+ * article does not outweigh a cleaner extraction of the same article.
+ */
+export function scoreContent(html: string): ContentScore {
+    const fragment = new DOMParser().parseFromString(`<html><body>${html}</body></html>`, "text/html");
+    const text = (fragment?.body?.textContent || "").replace(/\s+/g, " ").trim();
+    let linkText = 0;
+    for (const link of fragment?.querySelectorAll("a") ?? []) {
+        linkText += (link.textContent || "").replace(/\s+/g, " ").trim().length;
+    }
+
+    const textLength = text.length;
+    const linkDensity = textLength > 0 ? Math.min(1, linkText / textLength) : 1;
+    const textDensity = html.length > 0 ? textLength / html.length : 0;
+    const score = Math.sqrt(textLength) * (1 - linkDensity) ** 2 * Math.min(1, textDensity * 1.5);
+
+    return {
+        score: Math.round(score * 10) / 10,
+        textLength,
+        linkDensity: Math.round(linkDensity * 1000) / 1000,
+        textDensity: Math.round(textDensity * 1000) / 1000,
+    };
+}
+
+/**
+ * The outermost elements matching the selector, in document order
+ */
+function selectContent(document: HTMLDocument, selector: string): ArticleContent | null {
+    const kept: Element[] = [];
+    for (const element of select(document, selector, "include_selector")) {
+        if (!kept.some((outer) => outer.contains(element))) kept.push(element);
+    }
+    if (kept.length === 0) return null;
+    return {
+        title: pageTitle(document),
+        content: kept.map((element) => element.outerHTML).join("\n"),
+        extractor: "selector",
+    };
+}
+
+function select(document: HTMLDocument, selector: string, option: string): Element[] {
+    try {
+        return [...document.querySelectorAll(selector)] as Element[];
+    } catch {
+        throw new Error(`Invalid ${option}: ${selector}`);
+    }
+}
+
+function pageTitle(document: HTMLDocument): string {
+    return document.title || document.querySelector("h1")?.textContent?.trim() || "Untitled";
+}
+
+function run(name: Exclude<Extractor, "auto">, document: HTMLDocument, url?: string): ArticleContent | null {
+    try {
+        const article = engines[name](document, url);
+        return article && article.content.trim() ? { ...article, extractor: name } : null;
+    } catch (error) {
+        console.warn(`[Extractor] ${name} failed:`, error instanceof Error ? error.message : error);
+        return null;
+    }
+}
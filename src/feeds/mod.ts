@@ -0,0 +1,261 @@
+/**
+ * Feed Ingestion Module
+ * Reads a sitemap.xml or RSS/Atom feed, selects entries by date and path,
+ * converts each one through the regular strategy chain and returns the
+ * Markdown together with the feed metadata of every entry.
+ */
+
+import { handleConversion, type ConversionOptions } from "../core/conversion.ts";
+import { globToRegExp } from "../crawl/mod.ts";
+import { CRAWLER_USER_AGENT } from "../crawl/robots.ts";
+import { parseStrategy, type Strategy } from "../strategies/mod.ts";
+import { BodyTooLargeError, createLinkedSignal, decodeResponse, readEnv, readLimited } from "../utils.ts";
+import { parseFeed, type FeedEntry, type FeedMetadata, type ParsedFeed } from "./parse.ts";
+
+export type { FeedEntry, FeedMetadata } from "./parse.ts";
+
+export interface FeedOptions {
+    /** Sitemap, sitemap index, RSS or Atom URL */
+    url: string;
+    /** Only entries published (or modified) on or after this date */
+    since?: Date;
+    /** Only entries published (or modified) before this date */
+    until?: Date;
+    /** Path globs an entry URL must match (e.g. "/blog/**"); empty means all */
+    include?: string[];
+    /** Path globs that exclude an entry */
+    exclude?: string[];
+    /** Entries to convert, newest first (default 10, capped by FEED_MAX_ITEMS) */
+    limit?: number;
+    bypass?: boolean;
+    preserveImages?: boolean;
+    strategy?: Strategy;
+}
+
+export interface FeedItem extends FeedEntry {
+    status: "converted" | "failed";
+    strategy?: string;
+    fromCache?: boolean;
+    error?: string;
+    content?: string;
+}
+
+export interface FeedResult {
+    feed: FeedMetadata & { url: string };
+    /** Entries that passed the filters, before the limit was applied */
+    matched: number;
+    items: FeedItem[];
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_ITEMS = Number(readEnv("FEED_MAX_ITEMS") || 50);
+const CONCURRENCY = Number(readEnv("FEED_CONCURRENCY") || 3);
+const FEED_TIMEOUT_MS = Number(readEnv("FEED_TIMEOUT") || 15000);
+const MAX_FEED_BYTES = 20 * 1024 * 1024;
+// Child sitemaps read from one sitemap index
+const MAX_CHILD_SITEMAPS = 10;
+
+/**
+ * Fetch a feed, filter its entries and convert each one
+ */
+export async function ingestFeed(options: FeedOptions, signal?: AbortSignal): Promise<FeedResult> {
+    const parsed = await loadFeed(options.url, signal);
+    const limit = clamp(options.limit ?? DEFAULT_LIMIT, 1, MAX_ITEMS);
+
+    const entries = filterEntries(parsed.entries, options);
+    const selected = entries.slice(0, limit);
+    console.log(`[Feed] ${options.url}: ${parsed.entries.length} entries, ${entries.length} matched, converting ${selected.length}`);
+
+    const conversion: ConversionOptions = {
+        bypass: options.bypass ?? false,
+        preserveImages: options.preserveImages ?? true,
+        strategy: options.strategy,
+        download: false,
+        jsonFormat: false,
+        useCache: true,
+    };
+
+    const items: FeedItem[] = [];
+    // Convert in batches of CONCURRENCY, keeping feed order
+    for (let i = 0; i < selected.length; i += CONCURRENCY) {
+        if (signal?.aborted) throw signal.reason ?? new Error("Aborted");
+        const batch = await Promise.all(selected.slice(i, i + CONCURRENCY).map(async (entry): Promise<FeedItem> => {
+            try {
+                const result = await handleConversion(entry.url, conversion, signal);
+                return {
+                    ...entry,
+                    title: entry.title ?? result.title,
+                    status: "converted",
+                    strategy: result.strategy,
+                    fromCache: result.fromCache,
+                    content: result.content,
+                };
+            } catch (error) {
+                return { ...entry, status: "failed", error: error instanceof Error ? error.message : String(error) };
+            }
+        }));
+        items.push(...batch);
+    }
+
+    return {
+        feed: { ...parsed.metadata, url: options.url },
+        matched: entries.length,
+        items,
+    };
+}
+
+/**
+ * Concatenate converted items into one Markdown document
+ */
+export function feedToMarkdown(result: FeedResult): string {
+    const title = result.feed.title ?? result.feed.url;
+    const sections = result.items
+        .filter((item) => item.content !== undefined)
+        .map((item) => {
+            const meta = [
+                `<!-- Source: ${item.url} -->`,
+                item.published ? `<!-- Published: ${item.published} -->` : undefined,
+                item.author ? `<!-- Author: ${item.author} -->` : undefined,
+            ].filter(Boolean).join("\n");
+            return `${meta}\n\n${item.content}`;
+        });
+    return [`# ${title}`, ...sections].join("\n\n---\n\n");
+}
+
+/**
+ * Fetch and parse the feed; a sitemap index is expanded into its child sitemaps
+ */
+async function loadFeed(url: string, signal?: AbortSignal): Promise<ParsedFeed> {
+    const parsed = parseFeed(await fetchFeed(url, signal), url);
+    if (parsed.metadata.type !== "sitemapindex") return parsed;
+
+    // Read the most recently modified child sitemaps first
+    const children = [...parsed.entries]
+        .sort((a, b) => (b.updated ?? "").localeCompare(a.updated ?? ""))
+        .slice(0, MAX_CHILD_SITEMAPS);
+
+    const entries: FeedEntry[] = [];
+    for (const child of children) {
+        try {
+            entries.push(...parseFeed(await fetchFeed(child.url, signal), child.url).entries);
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            console.warn(`[Feed] Skipping child sitemap ${child.url}:`, error instanceof Error ? error.message : error);
+        }
+    }
+    return { metadata: parsed.metadata, entries };
+}
+
+async function fetchFeed(url: string, signal?: AbortSignal): Promise<string> {
+    const linked = createLinkedSignal(signal, FEED_TIMEOUT_MS);
+    try {
+        const response = await fetch(url, {
+            headers: {
+                "User-Agent": `${CRAWLER_USER_AGENT}/1.0`,
+                "Accept": "application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.9, */*;q=0.5",
+            },
+            signal: linked.signal,
+        });
+        if (!response.ok) {
+            await response.body?.cancel();
+            throw new Error(`Feed returned HTTP ${response.status}`);
+        }
+        const length = Number(response.headers.get("content-length") || 0);
+        if (length > MAX_FEED_BYTES) {
+            await response.body?.cancel();
+            throw new Error(`Feed too large (${length} bytes)`);
+        }
+
+        // Gzipped sitemaps (sitemap.xml.gz) are common; the limit applies to the decompressed XML
+        const body = url.endsWith(".gz") && !response.headers.get("content-encoding")
+            ? response.body?.pipeThrough(new DecompressionStream("gzip")) ?? null
+            : response.body;
+        const bytes = await readLimited(body, MAX_FEED_BYTES);
+        return await decodeResponse(new Response(bytes, { headers: response.headers }));
+    } catch (error) {
+        if (linked.timedOut()) throw new Error(`Feed timed out after ${FEED_TIMEOUT_MS}ms`);
+        if (error instanceof BodyTooLargeError) throw new Error(`Feed too large (over ${MAX_FEED_BYTES} bytes)`);
+        throw error;
+    } finally {
+        linked.dispose();
+    }
+}
+
+/**
+ * Apply date and path filters and sort newest first (undated entries keep feed order, last)
+ */
+function filterEntries(entries: FeedEntry[], options: FeedOptions): FeedEntry[] {
+    const includeRes = (options.include ?? []).map(globToRegExp);
+    const excludeRes = (options.exclude ?? []).map(globToRegExp);
+    const seen = new Set<string>();
+
+    const matched = entries.filter((entry) => {
+        if (seen.has(entry.url)) return false;
+        seen.add(entry.url);
+
+        const { pathname } = new URL(entry.url);
+        if (includeRes.length > 0 && !includeRes.some((re) => re.test(pathname))) return false;
+        if (excludeRes.some((re) => re.test(pathname))) return false;
+
+        if (options.since || options.until) {
+            // Entries without a date cannot satisfy a date filter
+            const stamp = entryDate(entry);
+            if (stamp === undefined) return false;
+            if (options.since && stamp < options.since.getTime()) return false;
+            if (options.until && stamp >= options.until.getTime()) return false;
+        }
+        return true;
+    });
+
+    return matched
+        .map((entry, index) => ({ entry, index, stamp: entryDate(entry) }))
+        .sort((a, b) => {
+            if (a.stamp === undefined || b.stamp === undefined) {
+                return a.stamp === b.stamp ? a.index - b.index : a.stamp === undefined ? 1 : -1;
+            }
+            return b.stamp - a.stamp || a.index - b.index;
+        })
+        .map(({ entry }) => entry);
+}
+
+function entryDate(entry: FeedEntry): number | undefined {
+    const value = entry.published ?? entry.updated;
+    return value ? Date.parse(value) : undefined;
+}
+
+/**
+ * Read feed options from query parameters
+ */
+export function parseFeedOptions(searchParams: URLSearchParams): FeedOptions {
+    const url = searchParams.get("url");
+    if (!url || !URL.canParse(url)) {
+        throw new Error("Missing or invalid 'url' parameter");
+    }
+
+    const date = (name: string): Date | undefined => {
+        const value = searchParams.get(name);
+        if (!value) return undefined;
+        const parsed = new Date(value);
+        if (Number.isNaN(parsed.getTime())) throw new Error(`Invalid '${name}' date: ${value}`);
+        return parsed;
+    };
+    const list = (name: string): string[] =>
+        searchParams.getAll(name).flatMap((value) => value.split(",")).map((value) => value.trim()).filter(Boolean);
+    const limit = searchParams.get("limit");
+
+    return {
+        url,
+        since: date("since"),
+        until: date("until"),
+        include: list("include"),
+        exclude: list("exclude"),
+        limit: limit ? Number(limit) || undefined : undefined,
+        bypass: searchParams.get("bypass") === "true",
+        preserveImages: searchParams.get("images") !== "false",
+        strategy: parseStrategy(searchParams.get("strategy")),
+    };
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(Math.max(Math.floor(value), min), max);
+}
@@ -0,0 +1,208 @@
+/**
+ * Feed Parsing
+ * Normalizes RSS 2.0 / RSS 1.0 (RDF), Atom and sitemap (urlset and
+ * sitemapindex) documents into one entry list with feed metadata.
+ */
+
+import { XMLParser } from "fast-xml-parser";
+
+export type FeedType = "rss" | "atom" | "sitemap" | "sitemapindex";
+
+export interface FeedMetadata {
+    type: FeedType;
+    title?: string;
+    description?: string;
+    /** Site link declared by the feed */
+    link?: string;
+    updated?: string;
+}
+
+export interface FeedEntry {
+    url: string;
+    title?: string;
+    /** ISO 8601 publication (or sitemap lastmod) date */
+    published?: string;
+    updated?: string;
+    author?: string;
+    summary?: string;
+    categories?: string[];
+}
+
+export interface ParsedFeed {
+    metadata: FeedMetadata;
+    entries: FeedEntry[];
+}
+
+// Elements that may repeat; always parsed as arrays
+const LIST_ELEMENTS = new Set(["item", "entry", "url", "sitemap", "link", "category", "author", "creator"]);
+
+const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    removeNSPrefix: true,
+    parseTagValue: false,
+    trimValues: true,
+    isArray: (name) => LIST_ELEMENTS.has(name),
+});
+
+/** A parsed element: child elements, "@_" attributes and "#text" */
+type XmlNode = Record<string, unknown>;
+
+/**
+ * Parse a feed or sitemap; throws when the document is neither
+ */
+export function parseFeed(xml: string, feedUrl: string): ParsedFeed {
+    const doc = node(parser.parse(xml));
+    const rss = node(doc.rss);
+    const rdf = node(doc.RDF);
+    const channel = node(rss.channel);
+
+    if (rss.channel) return parseRss(channel, nodes(channel.item), feedUrl);
+    if (doc.RDF) return parseRss(node(rdf.channel), nodes(rdf.item), feedUrl);
+    if (doc.feed) return parseAtom(node(doc.feed), feedUrl);
+    if (doc.urlset) return parseSitemap(nodes(node(doc.urlset).url), "sitemap", feedUrl);
+    if (doc.sitemapindex) return parseSitemap(nodes(node(doc.sitemapindex).sitemap), "sitemapindex", feedUrl);
+
+    throw new Error("Not an RSS, Atom or sitemap document");
+}
+
+function parseRss(channel: XmlNode, items: XmlNode[], feedUrl: string): ParsedFeed {
+    return {
+        metadata: {
+            type: "rss",
+            title: text(channel.title),
+            description: text(channel.description),
+            link: absolute(text(first(channel.link)), feedUrl),
+            updated: date(channel.lastBuildDate ?? channel.pubDate ?? channel.date),
+        },
+        entries: items
+            .map((item): FeedEntry | undefined => {
+                // Some feeds only have a permalink guid
+                const guid = item.guid;
+                const permalink = typeof guid === "object" && node(guid)["@_isPermaLink"] !== "false" ? text(guid) : undefined;
+                const url = absolute(text(first(item.link)) ?? permalink ?? text(item["@_about"]), feedUrl);
+                if (!url) return undefined;
+                return {
+                    url,
+                    title: text(item.title),
+                    published: date(item.pubDate ?? item.date),
+                    updated: date(item.updated),
+                    author: list(item.creator ?? item.author)[0],
+                    summary: text(item.description),
+                    categories: optionalList(item.category),
+                };
+            })
+            .filter((entry): entry is FeedEntry => entry !== undefined),
+    };
+}
+
+function parseAtom(feed: XmlNode, feedUrl: string): ParsedFeed {
+    return {
+        metadata: {
+            type: "atom",
+            title: text(feed.title),
+            description: text(feed.subtitle),
+            link: absolute(atomLink(feed.link), feedUrl),
+            updated: date(feed.updated),
+        },
+        entries: nodes(feed.entry)
+            .map((entry): FeedEntry | undefined => {
+                const url = absolute(atomLink(entry.link), feedUrl);
+                if (!url) return undefined;
+                return {
+                    url,
+                    title: text(entry.title),
+                    published: date(entry.published ?? entry.issued),
+                    updated: date(entry.updated ?? entry.modified),
+                    author: nodes(entry.author).map((author) => text(author.name)).find(Boolean),
+                    summary: text(entry.summary ?? entry.content),
+                    categories: optionalList(nodes(entry.category).map((c) => c["@_term"])),
+                };
+            })
+            .filter((entry): entry is FeedEntry => entry !== undefined),
+    };
+}
+
+function parseSitemap(urls: XmlNode[], type: FeedType, feedUrl: string): ParsedFeed {
+    return {
+        metadata: { type },
+        entries: urls
+            .map((url): FeedEntry | undefined => {
+                const loc = absolute(text(url.loc), feedUrl);
+                if (!loc) return undefined;
+                // News sitemaps carry a title and publication date
+                const news = node(url.news);
+                return {
+                    url: loc,
+                    title: text(news.title),
+                    published: date(news.publication_date ?? url.lastmod),
+                    updated: date(url.lastmod),
+                };
+            })
+            .filter((entry): entry is FeedEntry => entry !== undefined),
+    };
+}
+
+/**
+ * Atom links: prefer rel="alternate" (the default rel), else the first href
+ */
+function atomLink(value: unknown): string | undefined {
+    const links: unknown[] = Array.isArray(value) ? value : value === undefined ? [] : [value];
+    if (!links.length) return undefined;
+    const alternate = links.find((link) => !node(link)["@_rel"] || node(link)["@_rel"] === "alternate");
+    return text(node(alternate ?? links[0])["@_href"]) ?? text(alternate ?? links[0]);
+}
+
+/**
+ * The element itself, or an empty node when the value is text or missing
+ */
+function node(value: unknown): XmlNode {
+    return value && typeof value === "object" && !Array.isArray(value) ? value as XmlNode : {};
+}
+
+/**
+ * The elements of a repeated (or single) child
+ */
+function nodes(value: unknown): XmlNode[] {
+    return (Array.isArray(value) ? value : [value]).filter((entry) => entry && typeof entry === "object").map(node);
+}
+
+function first(value: unknown): unknown {
+    return Array.isArray(value) ? value[0] : value;
+}
+
+function text(value: unknown): string | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value === "object") return text(node(value)["#text"]);
+    const result = String(value).trim();
+    return result || undefined;
+}
+
+function list(value: unknown): string[] {
+    const values: unknown[] = Array.isArray(value) ? value : value === undefined ? [] : [value];
+    return values
+        .map((item) => node(item).name !== undefined ? text(node(item).name) : text(item))
+        .filter((item): item is string => item !== undefined);
+}
+
+function optionalList(value: unknown): string[] | undefined {
+    const values = list(value);
+    return values.length > 0 ? values : undefined;
+}
+
+function date(value: unknown): string | undefined {
+    const raw = text(first(value));
+    if (!raw) return undefined;
+    const parsed = new Date(raw);
+    return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+}
+
+function absolute(value: string | undefined, base: string): string | undefined {
+    if (!value) return undefined;
+    try {
+        const url = new URL(value, base);
+        return url.protocol === "http:" || url.protocol === "https:" ? url.href : undefined;
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,44 @@
+/**
+ * Front Matter Output
+ * Prefixes converted Markdown with a YAML front matter block built from page metadata
+ */
+
+import { stringify } from "yaml";
+import { countWords, type PageMetadata } from "./metadata.ts";
+
+const WORDS_PER_MINUTE = 230;
+
+export interface FrontMatterContext {
+    /** Source URL of the document */
+    url?: string;
+    /** Fetch strategy that produced the content */
+    strategy: string;
+}
+
+/**
+ * Return the Markdown with YAML front matter prepended
+ */
+export function withFrontMatter(markdown: string, metadata: PageMetadata, context: FrontMatterContext): string {
+    const wordCount = countWords(markdown);
+    const fields: Record<string, unknown> = {
+        title: metadata.title,
+        authors: metadata.authors,
+        published: metadata.published,
+        modified: metadata.modified,
+        "site_name": metadata.siteName,
+        source: context.url || undefined,
+        canonical: metadata.canonical,
+        language: metadata.language,
+        description: metadata.description,
+        image: metadata.image,
+        "word_count": wordCount,
+        // Minutes
+        "reading_time": Math.max(1, Math.round(wordCount / WORDS_PER_MINUTE)),
+        strategy: context.strategy,
+    };
+
+    const present = Object.fromEntries(
+        Object.entries(fields).filter(([, value]) => value !== undefined && value !== ""),
+    );
+    return `---\n${stringify(present, { lineWidth: 0 })}---\n\n${markdown}`;
+}
@@ -11,12 +11,14 @@ globalThis.Node = Node;
 globalThis.Element = Element;
 // @ts-ignore
 globalThis.Document = Document;
-import { Readability } from "readability";
 import TurndownService from "turndown";
 import turndownPluginGfm from "turndownPluginGfm";
+import { type ArticleContent, type ExtractionOptions, extractContent } from "./extractors.ts";
+import { createMarkdownRules, DEFAULT_LINK_STYLE, type LinkStyle } from "./markdown-rules.ts";
+import { COMMENT_CONTAINER_SELECTOR, type CommentStyle, countComments, extractComments, renderComments } from "./comments.ts";
 
 /**
- * Resolve a URL (relative or absolute) against a base URL
+ * Resolve a URL (relative or absolute) against a base URL (used for images and links)
  */
 function resolveUrl(src: string, baseUrl?: string): string {
     if (!src || !baseUrl) return src;
@@ -41,6 +43,11 @@ function resolveUrl(src: string, baseUrl?: string): string {
     try {
         const base = new URL(baseUrl);
 
+        // Fragment or query only - relative to the page itself
+        if (src.startsWith("#") || src.startsWith("?")) {
+            return new URL(src, base).href;
+        }
+
         // Absolute path (starts with /)
         if (src.startsWith("/")) {
             return `${base.origin}${src}`;
@@ -62,17 +69,10 @@ interface JSONResponse {
     content: string;
     strategy?: string;
     author?: string;
+    [extra: string]: unknown;
 }
 
-interface ArticleContent {
-    title: string;
-    content: string;
-    author?: string;
-    siteName?: string;
-    excerpt?: string;
-}
-
-type MainArticleContent = NonNullable<ReturnType<Readability["parse"]>>;
+const DEFAULT_EXTRACTION: ExtractionOptions = { extractor: "readability" };
 
 // Turndown options - enhanced for better Markdown output
 const turndownOptions: TurndownService.Options = {
@@ -89,9 +89,10 @@ const turndownOptions: TurndownService.Options = {
 /**
  * Create Turndown service with image preservation
  * @param preserveImages - Whether to preserve images in output
- * @param baseUrl - Base URL for resolving relative image paths
+ * @param baseUrl - Base URL for resolving relative image and link paths
+ * @param linkStyle - Inline, referenced (default), footnote or strip
  */
-function createTurndownService(preserveImages = true, baseUrl?: string): TurndownService {
+function createTurndownService(preserveImages = true, baseUrl?: string, linkStyle: LinkStyle = DEFAULT_LINK_STYLE): TurndownService {
     const service = new TurndownService(turndownOptions);
     // service.use(turndownPluginGfm.gfm); // Disabled due to isCodeBlock_ error
 
@@ -152,8 +153,10 @@ function createTurndownService(preserveImages = true, baseUrl?: string): Turndow
         service.remove(["figure", "img", "iframe"]);
     }
 
-    // Enhanced code block handling
-
+    // Links, tables, code, math, details, footnotes, definition lists and embeds
+    for (const [name, rule] of Object.entries(createMarkdownRules((url) => resolveUrl(url, baseUrl), linkStyle))) {
+        service.addRule(name, rule);
+    }
 
     return service;
 }
@@ -170,49 +173,63 @@ const parseHtml = (htmlText: string): HTMLDocument => {
 };
 
 /**
- * Extract article content using Readability
- * Falls back to body content if article extraction fails
+ * Extract article content with the chosen extractor (Readability by default)
+ * Falls back to the body heuristic if extraction finds nothing
+ * @param url - Page URL, passed to extractors that use it
+ * @param extraction - Extractor, include/exclude selectors and comment style
+ * @param hasThread - A comment thread was found; its containers stay out of the article body
  */
 const extractArticleContent = (
     document: HTMLDocument,
+    url?: string,
+    extraction: ExtractionOptions = DEFAULT_EXTRACTION,
+    hasThread = false,
 ): ArticleContent => {
-    try {
-        const mainArticle = new Readability(document).parse();
-
-        if (mainArticle) {
-            return {
-                title: mainArticle.title,
-                content: mainArticle.content,
-                author: mainArticle.byline || undefined,
-                siteName: mainArticle.siteName || undefined,
-                excerpt: mainArticle.excerpt || undefined,
-            };
-        }
-    } catch (error) {
-        console.warn("Readability extraction failed:", error);
-    }
-
-    // Fallback: try to extract from body
-    const body = document.body;
-    const title = document.title || document.querySelector("h1")?.textContent || "Untitled";
-
-    if (!body) {
-        throw new Error("Could not find main article or body content");
+    if (hasThread) {
+        // The thread is rendered separately, keep it out of the article body
+        const excludeSelector = [extraction.excludeSelector, COMMENT_CONTAINER_SELECTOR].filter(Boolean).join(", ");
+        return extractContent(document, { ...extraction, excludeSelector }, url);
     }
+    return extractContent(document, extraction, url);
+};
 
-    return {
-        title,
-        content: body.innerHTML,
-    };
+/**
+ * Render the page's discussion thread as a "## Comments" section
+ * @param document - Parsed page, read before extraction modifies it
+ * @param style - Nested blockquotes or nested lists
+ * @param baseUrl - Base URL for resolving relative links
+ * @param linkStyle - Links in comments stay inline (each comment is converted on its own) unless stripped
+ * @returns The section and comment count ("" and 0 when the page has no thread)
+ */
+const commentsToMarkdown = (
+    document: HTMLDocument,
+    style: CommentStyle,
+    baseUrl?: string,
+    linkStyle: LinkStyle = DEFAULT_LINK_STYLE,
+): { markdown: string; count: number } => {
+    const comments = extractComments(document);
+    if (comments.length === 0) return { markdown: "", count: 0 };
+
+    const count = countComments(comments);
+    const preserveImages = false;
+    const commentLinks = linkStyle === "strip" ? "strip" : "inline";
+    const thread = renderComments(comments, style, (html) => htmlTextToMarkdown(html, preserveImages, baseUrl, commentLinks));
+    return { markdown: `\n\n## Comments (${count})\n\n${thread}`, count };
 };
 
 /**
  * Convert HTML to Markdown
  * @param html - HTML content to convert
  * @param preserveImages - Whether to preserve images
- * @param baseUrl - Base URL for resolving relative image paths
+ * @param baseUrl - Base URL for resolving relative image and link paths
+ * @param linkStyle - Inline, referenced (default), footnote or strip
  */
-const htmlTextToMarkdown = (html: string, preserveImages = true, baseUrl?: string): string => {
+const htmlTextToMarkdown = (
+    html: string,
+    preserveImages = true,
+    baseUrl?: string,
+    linkStyle: LinkStyle = DEFAULT_LINK_STYLE,
+): string => {
     // Polyfill DOMParser for Turndown in Deno environment
     if (!globalThis.DOMParser) {
         // @ts-ignore - assigning to global
@@ -220,7 +237,7 @@ const htmlTextToMarkdown = (html: string, preserveImages = true, baseUrl?: strin
     }
 
     // Convert to Markdown with base URL for resolving relative paths
-    const turndownService = createTurndownService(preserveImages, baseUrl);
+    const turndownService = createTurndownService(preserveImages, baseUrl, linkStyle);
 
     // Explicitly parse to DOM and pass the node to Turndown
     // This combined with global polyfills should work in Deno Deploy
@@ -233,52 +250,69 @@ const htmlTextToMarkdown = (html: string, preserveImages = true, baseUrl?: strin
 };
 
 /**
- * Generate Markdown from HTML text
- * @param htmlText - Full HTML page content
+ * Generate Markdown from a parsed page
+ * @param document - Parsed page; extraction modifies it
  * @param preserveImages - Whether to preserve images
  * @param baseUrl - Base URL for resolving relative image paths
+ * @param extraction - Extractor, include/exclude selectors and comment style
+ * @param linkStyle - Inline, referenced (default), footnote or strip
  */
 const generateMarkdownText = (
-    htmlText: string,
+    document: HTMLDocument,
     preserveImages = true,
-    baseUrl?: string
+    baseUrl?: string,
+    extraction: ExtractionOptions = DEFAULT_EXTRACTION,
+    linkStyle: LinkStyle = DEFAULT_LINK_STYLE,
 ): string => {
-    const document = parseHtml(htmlText);
-    const { content, title, author } = extractArticleContent(document);
-    const markdownText = htmlTextToMarkdown(content, preserveImages, baseUrl);
+    // Read the thread before extraction strips it from the document
+    const comments = extraction.comments ? commentsToMarkdown(document, extraction.comments, baseUrl, linkStyle) : undefined;
+    const { content, title, author } = extractArticleContent(document, baseUrl, extraction, (comments?.count ?? 0) > 0);
+    const markdownText = htmlTextToMarkdown(content, preserveImages, baseUrl, linkStyle);
 
     let result = `# ${title}\n\n`;
     if (author) {
         result += `*By ${author}*\n\n`;
     }
     result += markdownText;
+    if (comments) {
+        result += comments.markdown;
+    }
 
     return result;
 };
 
 /**
- * Generate JSON response from HTML text
- * @param htmlText - Full HTML page content
+ * Generate JSON response from a parsed page
+ * @param document - Parsed page; extraction modifies it
  * @param url - Original URL (used for both output and resolving relative paths)
  * @param strategy - Fetch strategy used
  * @param preserveImages - Whether to preserve images
+ * @param extra - Additional fields to include (e.g. the attempt trace)
+ * @param extraction - Extractor, include/exclude selectors and comment style
+ * @param linkStyle - Inline, referenced (default), footnote or strip
  */
 const generateJsonData = (
-    htmlText: string,
+    document: HTMLDocument,
     url: string,
     strategy = "direct",
-    preserveImages = true
+    preserveImages = true,
+    extra: Record<string, unknown> = {},
+    extraction: ExtractionOptions = DEFAULT_EXTRACTION,
+    linkStyle: LinkStyle = DEFAULT_LINK_STYLE,
 ): string => {
-    const document = parseHtml(htmlText);
-    const { content, title, author } = extractArticleContent(document);
-    // Use url as baseUrl to resolve relative image paths
-    const markdownText = htmlTextToMarkdown(content, preserveImages, url);
+    const comments = extraction.comments ? commentsToMarkdown(document, extraction.comments, url || undefined, linkStyle) : undefined;
+    const { content, title, author, extractor, scores } = extractArticleContent(document, url || undefined, extraction, (comments?.count ?? 0) > 0);
+    // Use url as baseUrl to resolve relative image and link paths
+    const markdownText = htmlTextToMarkdown(content, preserveImages, url, linkStyle);
 
     let markdownContent = `# ${title}\n\n`;
     if (author) {
         markdownContent += `*By ${author}*\n\n`;
     }
     markdownContent += markdownText;
+    if (comments) {
+        markdownContent += comments.markdown;
+    }
 
     const jsonResponse: JSONResponse = {
         url,
@@ -287,12 +321,17 @@ const generateJsonData = (
         content: markdownContent,
         strategy,
         author,
+        extractor,
+        ...(scores ? { extractorScores: scores } : {}),
+        ...(comments ? { commentCount: comments.count } : {}),
+        ...extra,
     };
 
     return JSON.stringify(jsonResponse, null, 2);
 };
 
 export {
+    commentsToMarkdown,
     generateJsonData,
     generateMarkdownText,
     htmlTextToMarkdown,
@@ -206,7 +206,7 @@ const indexHtml = `
             grid-column: span 2;
         }
 
-        select {
+        select, .selector-input {
             padding: 0.5rem;
             border-radius: 0.5rem;
             border: 1px solid var(--border-colour);
@@ -216,6 +216,12 @@ const indexHtml = `
             cursor: pointer;
         }
 
+        .selector-input {
+            flex: 1;
+            min-width: 0;
+            cursor: text;
+        }
+
         article {
             margin-top: 2rem;
         }
@@ -356,6 +362,24 @@ const indexHtml = `
                             📦 JSON Format
                         </label>
                     </div>
+                    <div class="option-group">
+                        <input type="checkbox" name="frontmatter" id="frontmatter" />
+                        <label for="frontmatter" title="Prefix the Markdown with YAML front matter (title, authors, dates, site, word count...)">
+                            🏷️ Front Matter
+                        </label>
+                    </div>
+                    <div class="option-group">
+                        <input type="checkbox" name="follow_pages" id="follow_pages" value="true" />
+                        <label for="follow_pages" title="Follow next-page links and stitch multi-page articles into one document">
+                            📑 Follow Pages
+                        </label>
+                    </div>
+                    <div class="option-group">
+                        <input type="checkbox" name="comments" id="comments" value="true" />
+                        <label for="comments" title="Append the comment thread after the article as nested blockquotes">
+                            💬 Comments
+                        </label>
+                    </div>
                     <div class="strategy-select">
                         <label for="strategy">⚡ Strategy:</label>
                         <select name="strategy" id="strategy">
@@ -367,6 +391,31 @@ const indexHtml = `
                             <option value="jina">Jina Reader</option>
                         </select>
                     </div>
+                    <div class="strategy-select">
+                        <label for="extractor">🧹 Extractor:</label>
+                        <select name="extractor" id="extractor">
+                            <option value="">Default</option>
+                            <option value="readability">Readability</option>
+                            <option value="defuddle">Defuddle</option>
+                            <option value="body">Page body</option>
+                            <option value="auto">Auto (best score)</option>
+                        </select>
+                    </div>
+                    <div class="strategy-select">
+                        <label for="link_style">🔗 Links:</label>
+                        <select name="link_style" id="link_style">
+                            <option value="">Referenced</option>
+                            <option value="inline">Inline</option>
+                            <option value="footnote">Footnotes</option>
+                            <option value="strip">Text only</option>
+                        </select>
+                    </div>
+                    <div class="strategy-select">
+                        <label for="include_selector" title="Convert only elements matching this CSS selector">🎯 Only:</label>
+                        <input type="text" class="selector-input" name="include_selector" id="include_selector" placeholder="article .post-body" />
+                        <label for="exclude_selector" title="Remove elements matching this CSS selector first">✂️ Strip:</label>
+                        <input type="text" class="selector-input" name="exclude_selector" id="exclude_selector" placeholder=".comments, aside" />
+                    </div>
                 </div>
             </form>
 
@@ -389,6 +438,22 @@ const indexHtml = `
                         <h3>🤖 LLM Ready</h3>
                         <p>Clean Markdown perfect for AI context</p>
                     </div>
+                    <div class="feature-card">
+                        <h3>📄 PDF Support</h3>
+                        <p>Papers and reports convert with headings, lists and page markers</p>
+                    </div>
+                    <div class="feature-card">
+                        <h3>🧾 Structured Pages</h3>
+                        <p>Recipes, products, events, FAQs, how-tos, job posts and videos render from their JSON-LD</p>
+                    </div>
+                    <div class="feature-card">
+                        <h3>🧮 Rich Markdown</h3>
+                        <p>Tables, code with languages, LaTeX math, footnotes, definition lists, details and video/tweet links</p>
+                    </div>
+                    <div class="feature-card">
+                        <h3>💬 Comment Threads</h3>
+                        <p>Forum, Hacker News, Reddit and blog discussions as nested quotes with author, time and score</p>
+                    </div>
                 </div>
 
                 <div class="api-section">
@@ -400,9 +465,61 @@ const indexHtml = `
                         <li><code>url</code> - Target URL (required)</li>
                         <li><code>bypass</code> - Enable paywall bypass (true/false)</li>
                         <li><code>images</code> - Keep images (true/false, default: true)</li>
-                        <li><code>strategy</code> - Specific strategy (direct/googlebot/12ft/archive/jina)</li>
-                        <li><code>format</code> - Output format (json/text)</li>
+                        <li><code>strategy</code> - Specific strategy (direct/googlebot/12ft/archive/jina, or render when RENDER_CDP_URL points at a headless Chrome)</li>
+                        <li><code>format</code> - Output format (json/text, or frontmatter for Markdown with YAML front matter: title, authors, published/modified, site name, canonical URL, language, description, image, word count, reading time, strategy)</li>
+                        <li><code>extractor</code> - Main-content extractor: readability (default), defuddle, body (article/main container without navigation), or auto to run all three and keep the best score by text length, text density and link density (JSON output lists the scores)</li>
+                        <li><code>include_selector</code> - CSS selector; convert only the matching elements (falls back to the extractor when nothing matches)</li>
+                        <li><code>exclude_selector</code> - CSS selector; strip matching elements (comments, sidebars, changelogs) before extraction. Both can also be set per domain in the rules file as <code>includeSelector</code> / <code>excludeSelector</code></li>
+                        <li><code>follow_pages</code> - Follow <code>rel="next"</code> / pager links of articles split across pages and stitch them into one document with <code>&lt;!-- Page N: url --&gt;</code> markers (true, or a page count; max PAGINATION_MAX_PAGES, default 10)</li>
+                        <li><code>comments</code> - Append the discussion thread (Hacker News, Reddit, Discourse, WordPress-style and schema.org comments) after the article with author, time and score: true or quote for nested blockquotes, list for nested lists (JSON output adds <code>commentCount</code>; at most COMMENTS_MAX, default 500)</li>
+                        <li><code>link_style</code> - How links are written: inline, referenced (numbered list at the end, default), footnote (<code>text[^1]</code> with definitions at the end) or strip (link text only). Relative links are resolved against the page URL and tracking parameters (utm_*, fbclid, gclid) are removed</li>
+                        <li><code>cache</code> - Use cached results (true/false, default: true)</li>
+                        <li><code>cache_ttl</code> - Cache lifetime in seconds for this result</li>
+                        <li><code>format=chunks</code> - JSON list of heading-aware chunks for RAG (<code>chunk_size</code>, <code>chunk_overlap</code>, <code>chunk_unit</code>=tokens|chars; 16-32768, overlap below the size; default 512/64 tokens), each with heading path, offsets and a stable id</li>
+                        <li><code>debug=true</code> - Return JSON with the strategy attempt trace (status, timing, bytes, errors, rule)</li>
                     </ul>
+                    <p><strong>Convert HTML you already have:</strong></p>
+                    <pre><code>POST /api/convert?base_url=https://example.com/post&format=json
+Content-Type: text/html
+
+&lt;html&gt;...&lt;/html&gt;</code></pre>
+                    <p>Also accepts JSON or form bodies with <code>html</code>, <code>base_url</code>, <code>format</code>, <code>images</code> and <code>extractor</code> fields.</p>
+                    <p><strong>Crawl a site section:</strong></p>
+                    <pre><code>POST /api/crawl
+{"url": "https://example.com/docs/", "max_depth": 2, "max_pages": 25, "include": ["/docs/**"], "exclude": ["/docs/v1/**"]}
+
+GET /api/crawl/{id}                  # manifest (status, pages)
+GET /api/crawl/{id}?content=true     # manifest with each page's Markdown
+GET /api/crawl/{id}?format=markdown  # all pages as one document
+DELETE /api/crawl/{id}               # cancel</code></pre>
+                    <p>robots.txt is honoured (set <code>respect_robots</code> to false to opt out for your own sites).</p>
+                    <p><strong>Stream several URLs as they finish:</strong></p>
+                    <pre><code>GET /api/stream?url=https://a.com/x&url=https://b.com/y             # NDJSON
+GET /api/stream?url=https://a.com/x&url=https://b.com/y&stream=sse  # Server-Sent Events
+POST /api/stream
+{"urls": ["https://a.com/x", "https://b.com/y"], "concurrency": 3}</code></pre>
+                    <p>Each finished URL emits a <code>result</code> event (url, status, strategy, elapsed, content or error), followed by one <code>done</code> summary.</p>
+                    <p><strong>Batch jobs (hundreds of URLs):</strong></p>
+                    <pre><code>POST /api/batch
+{"urls": ["https://example.com/a", "https://example.org/b"], "concurrency": 4, "host_concurrency": 1, "host_delay": 1000}
+
+GET /api/batch/{id}                  # status, counts and per-URL results
+GET /api/batch/{id}?content=true     # include Markdown of finished URLs
+GET /api/batch/{id}?format=ndjson    # one JSON line per finished URL
+GET /api/batch/{id}?format=zip       # Markdown files + manifest.json
+DELETE /api/batch/{id}               # cancel</code></pre>
+                    <p>Each host gets <code>host_concurrency</code> requests in flight and <code>host_delay</code> ms between them. Set <code>BATCH_BACKEND=kv</code> or <code>file</code> to keep jobs across restarts; unfinished jobs resume on startup.</p>
+                    <p><strong>Convert a sitemap or RSS/Atom feed:</strong></p>
+                    <pre><code>GET /api/feed?url=https://example.com/feed.xml&since=2025-01-01&include=/blog/**&limit=10
+GET /api/feed?url=https://example.com/sitemap.xml&format=markdown</code></pre>
+                    <p>Entries are converted newest first; the JSON result keeps each entry's title, dates, author and categories. Filters: <code>since</code>, <code>until</code>, <code>include</code>, <code>exclude</code>, <code>limit</code>.</p>
+                    <p><strong>Page metadata only:</strong></p>
+                    <pre><code>GET /api/metadata?url=https://example.com/post
+GET /api/metadata?url=https://example.com/post&raw=true   # plus the values found in each source</code></pre>
+                    <p>Merges JSON-LD (including <code>@graph</code>), OpenGraph, Twitter Card, Dublin Core and meta tags into one record; <code>sources</code> names where each field came from. JSON output from <code>/api</code> carries the same record as <code>metadata</code>.</p>
+                    <p><strong>Strategy statistics:</strong></p>
+                    <pre><code>GET /api/stats?domain=example.com
+DELETE /api/stats?domain=example.com</code></pre>
                 </div>
 
                 <div class="api-section">
@@ -414,8 +531,12 @@ const indexHtml = `
                     <pre><code>claude mcp add --transport sse url2md https://url2md-pro.deno.dev/mcp/sse</code></pre>
                     <p><strong>Available Tools:</strong></p>
                     <ul>
-                        <li><code>fetch_url</code> - Fetch single URL and convert to Markdown</li>
-                        <li><code>fetch_urls</code> - Batch fetch multiple URLs (max 10)</li>
+                        <li><code>fetch_url</code> - Fetch single URL and convert to Markdown (optionally as chunks, or paginated with <code>maxLength</code> and a continuation <code>cursor</code>)</li>
+                        <li><code>fetch_urls</code> - Batch fetch multiple URLs (max 10, reports progress per URL)</li>
+                        <li><code>convert_html</code> - Convert HTML you already have (optional base URL)</li>
+                        <li><code>crawl_site</code> - Convert a site section by following same-origin links</li>
+                        <li><code>fetch_feed</code> - Convert the entries of a sitemap or RSS/Atom feed</li>
+                        <li><code>get_metadata</code> - Title, authors, dates and other page metadata without the content</li>
                     </ul>
                     <p><strong>Endpoints:</strong></p>
                     <ul>
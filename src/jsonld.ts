@@ -3,83 +3,86 @@
  * Prioritizes structured data extraction before Readability
  */
 
-import { DOMParser, type HTMLDocument } from "deno-dom";
+import type { HTMLDocument } from "deno-dom";
+import { htmlTextToMarkdown } from "./html-to-markdown.ts";
+import { type LdNode, readJsonLd } from "./metadata.ts";
 
 export interface JsonLdResult {
     title: string;
     content: string;
     author?: string;
     date?: string;
+    /** schema.org type the content came from */
+    type?: string;
+    /** Content was rendered from structured fields instead of taken from articleBody */
+    rendered?: boolean;
 }
 
+const ARTICLE_TYPES = ["Article", "NewsArticle", "BlogPosting", "WebPage", "ReportageNewsArticle"];
+
+// Types that describe the whole page, tried first
+const PRIMARY_TYPES = ["Recipe", "Product", "Event", "JobPosting", "HowTo", "QAPage"];
+// Types often attached to other content, tried last
+const SUPPLEMENTARY_TYPES = ["FAQPage", "VideoObject"];
+
+// Rendered content shorter than this is not worth replacing Readability output
+const MIN_RENDERED_LENGTH = 100;
+
 /**
  * Extract article content from JSON-LD structured data
+ * @param baseUrl - Page URL, used to resolve links inside HTML-valued fields
  */
-export function extractFromJsonLd(html: string): JsonLdResult | null {
+export function extractFromJsonLd(doc: HTMLDocument, baseUrl?: string): JsonLdResult | null {
     try {
-        const doc = new DOMParser().parseFromString(html, "text/html");
-        if (!doc) return null;
-
-        const scripts = doc.querySelectorAll('script[type="application/ld+json"]');
-
-        for (const script of scripts) {
-            try {
-                const jsonText = script.textContent;
-                if (!jsonText) continue;
-
-                const data = JSON.parse(jsonText);
-                const items = Array.isArray(data) ? data : [data];
-
-                for (const item of items) {
-                    if (!item || typeof item !== "object") continue;
-
-                    // Check @type
-                    let itemType = item["@type"] || "";
-                    if (Array.isArray(itemType)) {
-                        itemType = itemType[0] || "";
-                    }
-
-                    const validTypes = ["Article", "NewsArticle", "BlogPosting", "WebPage", "ReportageNewsArticle"];
-                    if (!validTypes.includes(itemType)) continue;
-
-                    // Extract articleBody
-                    let body = item.articleBody || item.text || "";
-                    if (Array.isArray(body)) {
-                        body = body.filter(Boolean).join(" ");
-                    }
-                    body = String(body).trim();
-
-                    if (body.length < 200) continue;
-
-                    // Extract title
-                    let title = item.headline || item.name || "";
-                    if (Array.isArray(title)) {
-                        title = title[0] || "";
-                    }
-                    title = String(title).trim();
-
-                    // Extract author
-                    let author = "";
-                    const authorData = item.author;
-                    if (typeof authorData === "object" && authorData !== null) {
-                        author = authorData.name || "";
-                    } else if (Array.isArray(authorData) && authorData[0]) {
-                        const first = authorData[0];
-                        author = typeof first === "object" ? first.name || "" : String(first);
-                    } else if (authorData) {
-                        author = String(authorData);
-                    }
-
-                    // Extract date
-                    const date = item.datePublished || item.dateModified || "";
-
-                    console.log(`[JSON-LD] Extracted: ${title.slice(0, 50)}`);
-                    return { title, content: body, author, date };
-                }
-            } catch {
-                // JSON parse error, try next script
-                continue;
-            }
+        // WebPage nodes often hold the content node as their main entity
+        const items = readJsonLd(doc).flatMap((item) => [item, ...objects(item.mainEntity).filter((entity) => entity["@type"])]);
+
+        for (const item of items) {
+            // Check @type
+            const itemType = typesOf(item)[0] ?? "";
+
+            if (!ARTICLE_TYPES.includes(itemType)) continue;
+
+            // Extract articleBody
+            const rawBody = item.articleBody || item.text || "";
+            const body = (Array.isArray(rawBody) ? rawBody.filter(Boolean).join(" ") : String(rawBody)).trim();
+
+            if (body.length < 200) continue;
+
+            const title = text(item.headline ?? item.name) ?? "";
+            const author = names(item.author);
+            // Extract date
+            const date = text(item.datePublished) ?? text(item.dateModified) ?? "";
+
+            console.log(`[JSON-LD] Extracted: ${title.slice(0, 50)}`);
+            return { title, content: body, author, date, type: itemType };
+        }
+
+        // No article body: render a structured type instead, unless the page is an article.
+        // Reviews and news often carry a Product or Event node; Readability keeps the article itself
+        const hasArticle = items.some((item) => typesOf(item).some((type) => type !== "WebPage" && ARTICLE_TYPES.includes(type)));
+        if (hasArticle) return null;
+        const candidates = [
+            ...items.filter((item) => typesOf(item).some((type) => PRIMARY_TYPES.includes(type))),
+            ...items.filter((item) => typesOf(item).some((type) => SUPPLEMENTARY_TYPES.includes(type))),
+        ];
+
+        for (const item of candidates) {
+            const type = typesOf(item).find((name) => name in renderers)!;
+            const content = renderers[type](item, baseUrl).trim();
+            if (content.length < MIN_RENDERED_LENGTH) continue;
+
+            const question = type === "QAPage" ? firstNode(item.mainEntity) : undefined;
+            const title = text(question?.name ?? item.headline ?? item.name) ?? (doc.querySelector("title")?.textContent.trim() || type);
+            console.log(`[JSON-LD] Rendered ${type}: ${title.slice(0, 50)}`);
+            return {
+                title,
+                content,
+                author: names(item.author ?? item.creator),
+                date: text(item.datePublished ?? item.uploadDate ?? item.datePosted ?? item.dateModified),
+                type,
+                rendered: true,
+            };
         }
     } catch (error) {
         console.warn("[JSON-LD] Extraction failed:", error);
@@ -87,3 +90,316 @@ export function extractFromJsonLd(html: string): JsonLdResult | null {
 
     return null;
 }
+
+// ============== Renderers ==============
+
+type Renderer = (item: LdNode, baseUrl?: string) => string;
+
+const renderers: Record<string, Renderer> = {
+    Recipe: (item, baseUrl) => blocks(
+        richText(item.description, baseUrl),
+        facts([
+            ["Prep time", duration(item.prepTime)],
+            ["Cook time", duration(item.cookTime)],
+            ["Total time", duration(item.totalTime)],
+            ["Yield", list(item.recipeYield).map(text).filter(Boolean).join(", ")],
+            ["Cuisine", joined(item.recipeCuisine)],
+            ["Category", joined(item.recipeCategory)],
+            ["Calories", text(prop(item.nutrition, "calories"))],
+            ["Rating", rating(item.aggregateRating)],
+        ]),
+        section("Ingredients", bullets(list(item.recipeIngredient ?? item.ingredients).map(text))),
+        section("Instructions", steps(item.recipeInstructions, baseUrl)),
+    ),
+
+    Product: (item, baseUrl) => {
+        const offer = firstNode(item.offers);
+        const reviews = objects(item.review).slice(0, 5).map((review) => {
+            const score = text(prop(review.reviewRating, "ratingValue"));
+            const body = richText(review.reviewBody ?? review.description, baseUrl);
+            return `**${names(review.author) || "Anonymous"}**${score ? ` (${score}/${text(prop(review.reviewRating, "bestRating")) ?? 5})` : ""}${body ? `: ${body}` : ""}`;
+        });
+        return blocks(
+            richText(item.description, baseUrl),
+            facts([
+                ["Brand", names(item.brand)],
+                ["SKU", text(item.sku)],
+                ["GTIN", text(item.gtin13 ?? item.gtin ?? item.gtin12 ?? item.gtin14 ?? item.gtin8)],
+                ["Price", price(offer)],
+                ["Availability", enumLabel(offer?.availability)],
+                ["Condition", enumLabel(offer?.itemCondition)],
+                ["Rating", rating(item.aggregateRating)],
+            ]),
+            section("Reviews", bullets(reviews)),
+        );
+    },
+
+    Event: (item, baseUrl) => {
+        const offer = firstNode(item.offers);
+        return blocks(
+            richText(item.description, baseUrl),
+            facts([
+                ["Starts", text(item.startDate)],
+                ["Ends", text(item.endDate)],
+                ["Location", list(item.location).map(place).filter(Boolean).join(" / ")],
+                ["Status", enumLabel(item.eventStatus)],
+                ["Attendance", enumLabel(item.eventAttendanceMode)?.replace(/ event attendance mode$/, "")],
+                ["Organizer", names(item.organizer)],
+                ["Performers", names(item.performer)],
+                ["Tickets", [price(offer), link(text(offer?.url))].filter(Boolean).join(" ")],
+            ]),
+        );
+    },
+
+    FAQPage: (item, baseUrl) => blocks(
+        ...objects(item.mainEntity).map((question) =>
+            blocks(`## ${text(question.name) ?? "Question"}`, answerText(question.acceptedAnswer ?? question.suggestedAnswer, baseUrl))
+        ),
+    ),
+
+    QAPage: (item, baseUrl) => {
+        const question = firstNode(item.mainEntity) ?? {};
+        const answers = [
+            ...list(question.acceptedAnswer).map((answer) => ({ answer, accepted: true })),
+            ...list(question.suggestedAnswer).map((answer) => ({ answer, accepted: false })),
+        ];
+        return blocks(
+            richText(question.text, baseUrl),
+            byline(question),
+            ...answers.map(({ answer, accepted }) =>
+                blocks(`## ${accepted ? "Accepted answer" : "Answer"}`, byline(answer), answerText(answer, baseUrl))
+            ),
+        );
+    },
+
+    HowTo: (item, baseUrl) => blocks(
+        richText(item.description, baseUrl),
+        facts([
+            ["Total time", duration(item.totalTime)],
+            ["Estimated cost", price(item.estimatedCost) ?? text(item.estimatedCost)],
+            ["Yield", text(item.yield)],
+        ]),
+        section("Supplies", bullets(list(item.supply).map(nameOrText))),
+        section("Tools", bullets(list(item.tool).map(nameOrText))),
+        section("Steps", steps(item.step, baseUrl)),
+    ),
+
+    JobPosting: (item, baseUrl) => blocks(
+        facts([
+            ["Company", names(item.hiringOrganization)],
+            ["Location", item.jobLocationType === "TELECOMMUTE"
+                ? "Remote"
+                : list(item.jobLocation).map(place).filter(Boolean).join(" / ")],
+            ["Employment type", list(item.employmentType).map(enumLabel).filter(Boolean).join(", ")],
+            ["Salary", salary(item.baseSalary)],
+            ["Posted", text(item.datePosted)],
+            ["Apply by", text(item.validThrough)],
+        ]),
+        richText(item.description, baseUrl),
+        section("Responsibilities", richText(item.responsibilities, baseUrl)),
+        section("Qualifications", richText(item.qualifications, baseUrl)),
+        section("Skills", richText(item.skills, baseUrl)),
+    ),
+
+    VideoObject: (item, baseUrl) => blocks(
+        richText(item.description, baseUrl),
+        facts([
+            ["Uploaded", text(item.uploadDate)],
+            ["Duration", duration(item.duration)],
+            ["Watch", link(text(item.embedUrl ?? item.contentUrl ?? item.url))],
+        ]),
+        section("Transcript", richText(item.transcript, baseUrl)),
+    ),
+};
+
+// ============== Helpers ==============
+
+function typesOf(value: unknown): string[] {
+    return [prop(value, "@type")].flat().filter((type): type is string => typeof type === "string");
+}
+
+function list(value: unknown): unknown[] {
+    return value === undefined || value === null ? [] : [value].flat();
+}
+
+/**
+ * The object entries of a value or list; strings and numbers are skipped
+ */
+function objects(value: unknown): LdNode[] {
+    return list(value).filter((entry): entry is LdNode => !!entry && typeof entry === "object" && !Array.isArray(entry));
+}
+
+function firstNode(value: unknown): LdNode | undefined {
+    return objects(value)[0];
+}
+
+/**
+ * A property of a node; undefined when the value is not an object
+ */
+function prop(value: unknown, key: string): unknown {
+    return value && typeof value === "object" ? (value as LdNode)[key] : undefined;
+}
+
+function text(value: unknown): string | undefined {
+    if (Array.isArray(value)) return text(value[0]);
+    if (typeof value === "string" || typeof value === "number") return String(value).trim() || undefined;
+    return undefined;
+}
+
+function nameOrText(value: unknown): string | undefined {
+    return value && typeof value === "object" ? text(prop(value, "name") ?? prop(value, "text")) : text(value);
+}
+
+/**
+ * Comma-separated names of a Person/Organization, a list of them, or plain strings
+ */
+function names(value: unknown): string {
+    return list(value).map(nameOrText).filter(Boolean).join(", ");
+}
+
+function joined(value: unknown): string {
+    return list(value).map(text).filter(Boolean).join(", ");
+}
+
+/**
+ * Field text as Markdown; HTML fragments and entities go through Turndown
+ */
+function richText(value: unknown, baseUrl?: string): string | undefined {
+    const raw = Array.isArray(value) ? value.map(nameOrText).filter(Boolean).join("\n\n") : nameOrText(value);
+    if (!raw) return undefined;
+    if (!/<[a-z][^>]*>|&#?\w+;/i.test(raw)) return raw;
+    // Structured fields are text; any embedded images are decoration.
+    // Each field converts on its own, so numbered references would repeat
+    const preserveImages = false;
+    return htmlTextToMarkdown(raw, preserveImages, baseUrl, "inline").trim() || undefined;
+}
+
+/**
+ * "PT1H30M" -> "1 h 30 min"; other values are returned unchanged
+ */
+function duration(value: unknown): string | undefined {
+    const raw = text(value);
+    const match = raw ? /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(raw) : null;
+    if (!match) return raw;
+    const parts = [[match[1], "d"], [match[2], "h"], [match[3], "min"], [match[4], "s"]]
+        .filter(([amount]) => amount && Number(amount) > 0)
+        .map(([amount, unit]) => `${Number(amount)} ${unit}`);
+    return parts.length > 0 ? parts.join(" ") : undefined;
+}
+
+/**
+ * "https://schema.org/InStock" -> "In stock"
+ */
+function enumLabel(value: unknown): string | undefined {
+    const raw = text(value)?.replace(/^https?:\/\/schema\.org\//, "");
+    if (!raw) return undefined;
+    const words = raw.replace(/_/g, " ").replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function price(value: unknown): string | undefined {
+    const offer = firstNode(value);
+    if (!offer) return undefined;
+    const currency = text(offer.priceCurrency ?? offer.currency) ?? "";
+    const low = text(offer.lowPrice);
+    const high = text(offer.highPrice);
+    const amount = low && high && low !== high ? `${low}–${high}` : text(offer.price ?? offer.value ?? low);
+    return amount ? `${amount} ${currency}`.trim() : undefined;
+}
+
+function salary(value: unknown): string | undefined {
+    const amount = firstNode(value);
+    if (!amount) return text(value);
+    const quantity = firstNode(amount.value) ?? amount;
+    const min = text(quantity.minValue);
+    const max = text(quantity.maxValue);
+    const figure = min && max ? `${min}–${max}` : text(quantity.value) ?? min ?? max;
+    if (!figure) return undefined;
+    const unit = text(quantity.unitText)?.toLowerCase();
+    return `${figure} ${text(amount.currency) ?? ""}`.trim() + (unit ? ` per ${unit}` : "");
+}
+
+function rating(value: unknown): string | undefined {
+    const aggregate = firstNode(value);
+    const score = text(aggregate?.ratingValue);
+    if (!aggregate || !score) return undefined;
+    const count = text(aggregate.ratingCount ?? aggregate.reviewCount);
+    return `${score}/${text(aggregate.bestRating) ?? 5}${count ? ` (${count} ratings)` : ""}`;
+}
+
+function place(value: unknown): string | undefined {
+    if (!value || typeof value !== "object") return text(value);
+    const node = value as LdNode;
+    if (typesOf(node).includes("VirtualLocation")) return link(text(node.url)) ?? "Online";
+    const address = node.address && typeof node.address === "object"
+        ? [...["streetAddress", "addressLocality", "addressRegion", "postalCode"].map((key) => prop(node.address, key)), nameOrText(prop(node.address, "addressCountry"))]
+            .map(text).filter(Boolean).join(", ")
+        : text(node.address);
+    return [text(node.name), address].filter(Boolean).join(", ") || undefined;
+}
+
+function link(url: string | undefined): string | undefined {
+    return url ? `<${url}>` : undefined;
+}
+
+function answerText(answer: unknown, baseUrl?: string): string | undefined {
+    const node = firstNode(answer);
+    return node ? richText(node.text, baseUrl) : richText(answer, baseUrl);
+}
+
+/**
+ * "*alice · 12 votes · 2024-01-02*" for questions and answers
+ */
+function byline(value: unknown): string | undefined {
+    const node = firstNode(value);
+    if (!node) return undefined;
+    const votes = text(node.upvoteCount);
+    const parts = [names(node.author), votes !== undefined ? `${votes} ${votes === "1" ? "vote" : "votes"}` : undefined, text(node.dateCreated)].filter(Boolean);
+    return parts.length > 0 ? `*${parts.join(" · ")}*` : undefined;
+}
+
+/**
+ * Numbered steps from strings, HowToStep, HowToDirection and HowToSection nodes
+ */
+function steps(value: unknown, baseUrl?: string): string | undefined {
+    if (typeof value === "string") return richText(value, baseUrl);
+
+    const output: string[] = [];
+    let numbered: string[] = [];
+    const flush = () => {
+        if (numbered.length > 0) output.push(numbered.map((step, index) => `${index + 1}. ${step}`).join("\n"));
+        numbered = [];
+    };
+
+    for (const entry of list(value)) {
+        if (typesOf(entry).includes("HowToSection")) {
+            flush();
+            output.push(blocks(`### ${text(prop(entry, "name")) ?? "Section"}`, steps(prop(entry, "itemListElement"), baseUrl)));
+            continue;
+        }
+        const step = entry && typeof entry === "object"
+            ? richText(prop(entry, "text") ?? prop(entry, "description"), baseUrl) ?? text(prop(entry, "name"))
+            : richText(entry, baseUrl);
+        if (step) numbered.push(step.replace(/\n+/g, " "));
+    }
+    flush();
+    return output.length > 0 ? output.join("\n\n") : undefined;
+}
+
+function facts(pairs: Array<[string, string | undefined]>): string | undefined {
+    const lines = pairs.filter(([, value]) => value).map(([label, value]) => `- **${label}:** ${value}`);
+    return lines.length > 0 ? lines.join("\n") : undefined;
+}
+
+function bullets(items: Array<string | undefined>): string | undefined {
+    const lines = items.filter(Boolean).map((item) => `- ${item}`);
+    return lines.length > 0 ? lines.join("\n") : undefined;
+}
+
+function section(heading: string, body: string | undefined): string | undefined {
+    return body ? `## ${heading}\n\n${body}` : undefined;
+}
+
+function blocks(...parts: Array<string | undefined>): string {
+    return parts.filter(Boolean).join("\n\n");
+}
@@ -0,0 +1,70 @@
+/**
+ * Link Extraction Module
+ * Collects absolute outgoing links from fetched HTML or Markdown (used by crawl mode)
+ */
+
+const HTML_HREF = /<a\b[^>]*?\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi;
+const MARKDOWN_LINK = /\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+const TRACKING_PARAM = /^(?:utm_\w+|fbclid|gclid|mc_cid|mc_eid)$/i;
+
+/**
+ * Resolve an href against the page URL, dropping fragments and non-HTTP schemes
+ */
+export function normalizeLink(href: string, baseUrl: string): string | undefined {
+    const value = href.trim().replace(/&amp;/g, "&");
+    if (!value || value.startsWith("#") || /^(javascript|mailto|tel|data):/i.test(value)) {
+        return undefined;
+    }
+    try {
+        const url = new URL(value, baseUrl);
+        if (url.protocol !== "http:" && url.protocol !== "https:") return undefined;
+        url.hash = "";
+        return url.href;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Remove tracking query parameters (utm_*, fbclid, gclid, Mailchimp ids) from an absolute URL
+ */
+export function stripTracking(href: string): string {
+    if (!/[?&](?:utm_|fbclid=|gclid=|mc_[ce]id=)/i.test(href)) return href;
+    try {
+        const url = new URL(href);
+        for (const name of [...url.searchParams.keys()]) {
+            if (TRACKING_PARAM.test(name)) url.searchParams.delete(name);
+        }
+        return url.href;
+    } catch {
+        return href;
+    }
+}
+
+/**
+ * Extract unique absolute links from <a href> attributes
+ */
+export function extractLinks(html: string, baseUrl: string): string[] {
+    // Respect <base href> when the page declares one
+    const base = /<base\b[^>]*?\bhref\s*=\s*["']([^"']+)["']/i.exec(html)?.[1];
+    const resolveBase = base ? normalizeLink(base, baseUrl) ?? baseUrl : baseUrl;
+
+    const links = new Set<string>();
+    for (const match of html.matchAll(HTML_HREF)) {
+        const link = normalizeLink(match[1] ?? match[2] ?? match[3], resolveBase);
+        if (link) links.add(link);
+    }
+    return [...links];
+}
+
+/**
+ * Extract unique absolute links from Markdown (for strategies that return Markdown)
+ */
+export function extractMarkdownLinks(markdown: string, baseUrl: string): string[] {
+    const links = new Set<string>();
+    for (const match of markdown.matchAll(MARKDOWN_LINK)) {
+        const link = normalizeLink(match[1], baseUrl);
+        if (link) links.add(link);
+    }
+    return [...links];
+}
@@ -0,0 +1,570 @@
+/**
+ * Markdown Rules
+ * Turndown rules for content the default rules flatten or drop: tables
+ * (pipe tables, HTML for merged cells), fenced code with its language,
+ * MathML/KaTeX/MathJax as $...$ LaTeX, <details>, footnotes, definition
+ * lists, video/tweet embeds as titled links, and links in the requested
+ * style (inline, referenced, footnote or stripped).
+ */
+
+import type { Element } from "deno-dom";
+import { stripTracking } from "./links.ts";
+
+export type LinkStyle = "inline" | "referenced" | "footnote" | "strip";
+
+export const LINK_STYLES: readonly LinkStyle[] = ["inline", "referenced", "footnote", "strip"];
+
+export const DEFAULT_LINK_STYLE: LinkStyle = "referenced";
+
+/** A Turndown rule; filters and replacements receive deno-dom elements */
+export interface MarkdownRule {
+    filter: string | string[] | ((node: Element) => boolean);
+    replacement: (content: string, node: Element) => string;
+    /** Text added after the document (reference lists), called once per conversion */
+    append?: () => string;
+}
+
+const FOOTNOTE_ID = /^(?:fn|footnote|cite_note|note|endnote)(?:[-_:]|(?=\d))/i;
+const BACKREF_ID = /^(?:fnref|cite_ref|footnote-ref)(?:[-_:]|(?=\d))/i;
+const BLOCK_IN_CELL = "table, ul, ol, pre, blockquote, dl, h1, h2, h3, h4, h5, h6";
+const LINE_NUMBERS = ["gutter", "linenos", "lineno", "line-numbers-rows"];
+const PLAIN_LANGUAGES = ["none", "text", "plain", "plaintext", "txt", "nohighlight"];
+const TABLE_ATTRIBUTES = ["colspan", "rowspan", "href", "src", "alt", "scope"];
+
+const MATH_SYMBOLS: Record<string, string> = {
+    "α": "\\alpha", "β": "\\beta", "γ": "\\gamma", "δ": "\\delta", "ε": "\\epsilon", "ζ": "\\zeta", "η": "\\eta",
+    "θ": "\\theta", "ι": "\\iota", "κ": "\\kappa", "λ": "\\lambda", "μ": "\\mu", "ν": "\\nu", "ξ": "\\xi", "π": "\\pi",
+    "ρ": "\\rho", "σ": "\\sigma", "τ": "\\tau", "υ": "\\upsilon", "φ": "\\phi", "χ": "\\chi", "ψ": "\\psi", "ω": "\\omega",
+    "Γ": "\\Gamma", "Δ": "\\Delta", "Θ": "\\Theta", "Λ": "\\Lambda", "Ξ": "\\Xi", "Π": "\\Pi", "Σ": "\\Sigma",
+    "Φ": "\\Phi", "Ψ": "\\Psi", "Ω": "\\Omega", "∑": "\\sum", "∏": "\\prod", "∫": "\\int", "∮": "\\oint", "∂": "\\partial",
+    "∇": "\\nabla", "∞": "\\infty", "×": "\\times", "÷": "\\div", "·": "\\cdot", "⋅": "\\cdot", "±": "\\pm", "∓": "\\mp",
+    "−": "-", "≤": "\\leq", "≥": "\\geq", "≠": "\\neq", "≈": "\\approx", "≡": "\\equiv", "∼": "\\sim", "∝": "\\propto",
+    "→": "\\to", "←": "\\leftarrow", "⇒": "\\Rightarrow", "⇔": "\\Leftrightarrow", "↦": "\\mapsto", "∈": "\\in",
+    "∉": "\\notin", "⊂": "\\subset", "⊆": "\\subseteq", "∪": "\\cup", "∩": "\\cap", "∅": "\\emptyset", "∀": "\\forall",
+    "∃": "\\exists", "¬": "\\neg", "∧": "\\land", "∨": "\\lor", "…": "\\ldots", "⋯": "\\cdots", "ℝ": "\\mathbb{R}",
+    "ℕ": "\\mathbb{N}", "ℤ": "\\mathbb{Z}", "ℚ": "\\mathbb{Q}", "ℂ": "\\mathbb{C}", "\u2061": "", "\u2062": "",
+};
+
+/**
+ * Rules for createTurndownService, in the order they should be added
+ * (Turndown checks the most recently added rule first)
+ * @param resolve - Makes a (possibly relative) URL absolute
+ * @param linkStyle - How links are written
+ */
+export function createMarkdownRules(resolve: (url: string) => string, linkStyle: LinkStyle): Record<string, MarkdownRule> {
+    return {
+        // First, so that footnote links and backlinks take precedence
+        links: createLinkRule(resolve, linkStyle),
+
+        // ----- Tables -----
+        tableSection: {
+            filter: (node) => ["THEAD", "TBODY", "TFOOT"].includes(node.nodeName) && isPipeTable(ownerTable(node)),
+            replacement: (content) => content,
+        },
+        tableCaption: {
+            filter: "caption",
+            replacement: () => "",
+        },
+        tableCell: {
+            filter: (node) => (node.nodeName === "TH" || node.nodeName === "TD") && isPipeTable(ownerTable(node)),
+            replacement: (content, node) => {
+                const cell = content.trim().replace(/\s*\n+\s*/g, "<br>").replace(/\|/g, "\\|");
+                return `${isFirstCell(node) ? "| " : " "}${cell} |`;
+            },
+        },
+        tableRow: {
+            filter: (node) => node.nodeName === "TR" && isPipeTable(ownerTable(node)),
+            replacement: (content, node) => {
+                const table = ownerTable(node)!;
+                const rows = tableRows(table);
+                const columns = Math.max(...rows.map((row) => rowCells(row).length));
+                const row = `\n${content}${"  |".repeat(columns - rowCells(node).length)}`;
+                return rows[0] === node ? `${row}\n|${" --- |".repeat(columns)}` : row;
+            },
+        },
+        table: {
+            filter: "table",
+            replacement: (content, node) => {
+                // Layout tables and line-numbered code keep just their content
+                if (isCodeTable(node) || isLayoutTable(node)) return content;
+
+                const caption = childrenOf(node, "CAPTION")[0]?.textContent?.replace(/\s+/g, " ").trim();
+                if (isPipeTable(node)) {
+                    return `\n\n${caption ? `**${caption}**\n\n` : ""}${content.trim()}\n\n`;
+                }
+                // Merged or block-level cells do not fit a pipe table
+                return `\n\n${tableHtml(node, resolve)}\n\n`;
+            },
+        },
+
+        // ----- Code -----
+        codeBlock: {
+            filter: "pre",
+            replacement: (_content, node) => {
+                const code = codeText(node).replace(/\n+$/, "");
+                if (!code.trim()) return "";
+                const longest = Math.max(0, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+                const fence = "`".repeat(Math.max(3, longest + 1));
+                return `\n\n${fence}${codeLanguage(node)}\n${code}\n${fence}\n\n`;
+            },
+        },
+        // After codeBlock so that a <pre> gutter is dropped rather than fenced
+        lineNumbers: {
+            filter: (node) => LINE_NUMBERS.some((name) => hasClass(node, name)),
+            replacement: () => "",
+        },
+
+        // ----- Math -----
+        mathPreview: {
+            filter: (node) => hasClass(node, "MathJax_Preview"),
+            replacement: () => "",
+        },
+        math: {
+            filter: (node) =>
+                node.nodeName === "MATH" || node.nodeName === "MJX-CONTAINER" ||
+                hasClass(node, "katex") || hasClass(node, "katex-display") || hasClass(node, "mwe-math-element") ||
+                hasClass(node, "MathJax") || hasClass(node, "MathJax_Display") ||
+                (node.nodeName === "SCRIPT" && /^math\/tex/i.test(node.getAttribute("type") || "")),
+            replacement: (content, node) => {
+                // MathJax 2 renders next to its source script, which converts on its own
+                const next = node.nextElementSibling;
+                if (hasClass(node, "MathJax") && next?.nodeName === "SCRIPT" && /^math\/tex/i.test(next.getAttribute("type") || "")) {
+                    return "";
+                }
+                const tex = mathSource(node);
+                if (!tex) return content;
+                return isDisplayMath(node) ? `\n\n$$\n${tex}\n$$\n\n` : `$${tex}$`;
+            },
+        },
+
+        // ----- Details -----
+        summary: {
+            filter: "summary",
+            replacement: () => "",
+        },
+        details: {
+            filter: "details",
+            replacement: (content, node) => {
+                const summary = childrenOf(node, "SUMMARY")[0]?.textContent?.replace(/\s+/g, " ").trim() || "Details";
+                return `\n\n<details>\n<summary>${escapeHtml(summary)}</summary>\n\n${content.trim()}\n\n</details>\n\n`;
+            },
+        },
+
+        // ----- Footnotes -----
+        footnoteBackref: {
+            filter: (node) =>
+                hasClass(node, "mw-cite-backlink") ||
+                (node.nodeName === "A" && (
+                    BACKREF_ID.test(fragment(node)) || node.getAttribute("role") === "doc-backlink" ||
+                    ["reversefootnote", "footnote-backref", "footnote-back"].some((name) => hasClass(node, name))
+                )),
+            replacement: () => "",
+        },
+        // The link itself, so that no reference link is left for it; a wrapping <sup> adds nothing
+        footnoteReference: {
+            filter: (node) => isFootnoteLink(node),
+            replacement: (_content, node) => `[^${footnoteLabel(fragment(node))}]`,
+        },
+        footnote: {
+            filter: (node) => node.nodeName === "LI" && FOOTNOTE_ID.test(node.getAttribute("id") || ""),
+            replacement: (content, node) => {
+                const text = content.trim().replace(/\n(?=.)/g, "\n    ");
+                return `\n\n[^${footnoteLabel(node.getAttribute("id")!)}]: ${text}\n\n`;
+            },
+        },
+
+        // ----- Definition lists -----
+        definitionList: {
+            filter: "dl",
+            replacement: (content) => `\n\n${content.trim()}\n\n`,
+        },
+        definitionTerm: {
+            filter: "dt",
+            replacement: (content) => `\n\n${content.trim().replace(/\s*\n+\s*/g, " ")}\n`,
+        },
+        definitionDescription: {
+            filter: "dd",
+            replacement: (content) => `\n: ${content.trim().replace(/\n(?=.)/g, "\n    ")}\n`,
+        },
+
+        // ----- Embeds -----
+        videoEmbed: {
+            filter: (node) =>
+                (node.nodeName === "IFRAME" && !!embedUrl(node.getAttribute("src") || node.getAttribute("data-src") || "")) ||
+                node.nodeName === "VIDEO" || (node.nodeName === "LITE-YOUTUBE" && !!node.getAttribute("videoid")),
+            replacement: (_content, node) => {
+                if (node.nodeName === "LITE-YOUTUBE") {
+                    const title = node.getAttribute("playlabel") || node.getAttribute("title");
+                    return embedLink("YouTube", title, `https://www.youtube.com/watch?v=${node.getAttribute("videoid")}`);
+                }
+                if (node.nodeName === "VIDEO") {
+                    const src = node.getAttribute("src") || node.querySelector("source[src]")?.getAttribute("src");
+                    if (!src || src.startsWith("blob:")) return "";
+                    return embedLink("Video", node.getAttribute("title") || node.getAttribute("aria-label"), resolve(src));
+                }
+                const embed = embedUrl(node.getAttribute("src") || node.getAttribute("data-src") || "")!;
+                return embedLink(embed.kind, node.getAttribute("title"), embed.url);
+            },
+        },
+        tweet: {
+            filter: (node) => node.nodeName === "BLOCKQUOTE" && hasClass(node, "twitter-tweet"),
+            replacement: (content, node) => {
+                const status = tweetStatus(node);
+                if (!status) return content;
+
+                const text = node.querySelector("p")?.textContent?.trim() || "";
+                const author = /—\s*(.+?\(@\w+\))/.exec(node.textContent || "")?.[1];
+                const quote = text ? `${text.split("\n").map((line: string) => `> ${line}`).join("\n")}\n>\n` : "";
+                return `\n\n${quote}> [${author ? `Tweet by ${author}` : "Tweet"}](${resolve(status)})\n\n`;
+            },
+        },
+    };
+}
+
+/**
+ * Parse link_style; empty means the default (referenced)
+ */
+export function parseLinkStyle(value: string | null | undefined): LinkStyle | undefined {
+    if (!value) return undefined;
+    if (!LINK_STYLES.includes(value as LinkStyle)) {
+        throw new Error(`Invalid 'link_style': ${value} (use ${LINK_STYLES.join(", ")})`);
+    }
+    return value as LinkStyle;
+}
+
+// ============== Links ==============
+
+/**
+ * Links with absolute URLs and no tracking parameters, written inline, as
+ * numbered references, as footnotes, or as plain text (strip). References
+ * and footnotes repeat the number of an earlier link to the same URL.
+ */
+function createLinkRule(resolve: (url: string) => string, style: LinkStyle): MarkdownRule {
+    let definitions: string[] = [];
+    let labels = new Map<string, string>();
+    let taken: Set<string> | undefined;
+    let counter = 0;
+
+    // Footnote numbers skip labels the page's own footnotes use
+    const nextLabel = (node: Element): string => {
+        counter++;
+        if (style !== "footnote") return String(counter);
+        taken ??= new Set(
+            ([...(node.ownerDocument?.querySelectorAll("li[id]") ?? [])] as Element[])
+                .map((item) => item.getAttribute("id") || "")
+                .filter((id) => FOOTNOTE_ID.test(id))
+                .map(footnoteLabel),
+        );
+        while (taken.has(String(counter))) counter++;
+        return String(counter);
+    };
+
+    return {
+        filter: (node) => node.nodeName === "A" && !!node.getAttribute("href")?.trim(),
+        replacement: (content, node) => {
+            const href = stripTracking(resolve(node.getAttribute("href")!.trim()));
+            if (!content.trim() || style === "strip" || /^javascript:/i.test(href) || isRenderedWhole(node)) {
+                return content;
+            }
+
+            const title = node.getAttribute("title")?.trim();
+            const titlePart = title ? ` "${title.replace(/"/g, '\\"')}"` : "";
+            if (style === "inline") return `[${content}](${href.replace(/([()])/g, "\\$1")}${titlePart})`;
+
+            let label = labels.get(href + titlePart);
+            if (!label) {
+                label = nextLabel(node);
+                labels.set(href + titlePart, label);
+                definitions.push(style === "footnote" ? `[^${label}]: ${href}${titlePart}` : `[${label}]: ${href}${titlePart}`);
+            }
+            return style === "footnote" ? `${content}[^${label}]` : `[${content}][${label}]`;
+        },
+        append: () => {
+            const output = definitions.length > 0 ? `\n\n${definitions.join("\n")}\n\n` : "";
+            definitions = [];
+            labels = new Map();
+            taken = undefined;
+            counter = 0;
+            return output;
+        },
+    };
+}
+
+/**
+ * Whether an ancestor is written out without its converted content (code,
+ * summaries, HTML tables, tweets), so a link inside it needs no reference
+ */
+function isRenderedWhole(node: Element): boolean {
+    for (let parent = node.parentElement; parent; parent = parent.parentElement) {
+        if (parent.nodeName === "PRE" || parent.nodeName === "SUMMARY") return true;
+        if (parent.nodeName === "TABLE" && !isCodeTable(parent) && !isLayoutTable(parent) && !isPipeTable(parent)) return true;
+        if (parent.nodeName === "BLOCKQUOTE" && hasClass(parent, "twitter-tweet") && tweetStatus(parent)) return true;
+    }
+    return false;
+}
+
+// ============== Tables ==============
+
+const pipeTables = new WeakMap<Element, boolean>();
+
+function isPipeTable(table: Element | undefined): boolean {
+    if (!table) return false;
+    let simple = pipeTables.get(table);
+    if (simple === undefined) {
+        const rows = tableRows(table);
+        const cells = rows.flatMap(rowCells);
+        simple = rows.length > 0 && !isCodeTable(table) && rows.some((row) => rowCells(row).length > 1) &&
+            cells.every((cell) =>
+                Number(cell.getAttribute("colspan") || 1) <= 1 && Number(cell.getAttribute("rowspan") || 1) <= 1 &&
+                !cell.querySelector(BLOCK_IN_CELL) && cell.querySelectorAll("p").length <= 1
+            );
+        pipeTables.set(table, simple);
+    }
+    return simple;
+}
+
+function isLayoutTable(table: Element): boolean {
+    return tableRows(table).every((row) => rowCells(row).length <= 1);
+}
+
+function isCodeTable(table: Element): boolean {
+    return !!table.querySelector("pre") && LINE_NUMBERS.some((name) => !!table.querySelector(`.${name}`));
+}
+
+function ownerTable(node: Element): Element | undefined {
+    for (let parent = node.parentElement; parent; parent = parent.parentElement) {
+        if (parent.nodeName === "TABLE") return parent;
+    }
+    return undefined;
+}
+
+/** Rows of this table, not of tables nested in it */
+function tableRows(table: Element): Element[] {
+    return [...table.children].flatMap((child) => {
+        if (child.nodeName === "TR") return [child];
+        return ["THEAD", "TBODY", "TFOOT"].includes(child.nodeName) ? childrenOf(child, "TR") : [];
+    });
+}
+
+function rowCells(row: Element): Element[] {
+    return [...row.children].filter((child) => child.nodeName === "TH" || child.nodeName === "TD");
+}
+
+function isFirstCell(cell: Element): boolean {
+    for (let sibling = cell.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+        if (sibling.nodeName === "TH" || sibling.nodeName === "TD") return false;
+    }
+    return true;
+}
+
+/**
+ * Table markup without presentational attributes, one row per line and no blank lines
+ */
+function tableHtml(table: Element, resolve: (url: string) => string): string {
+    const deep = true;
+    const copy = table.cloneNode(deep) as Element;
+    for (const element of [...copy.querySelectorAll("script, style")]) element.remove();
+    for (const element of [copy, ...copy.querySelectorAll("*")] as Element[]) {
+        for (const name of element.getAttributeNames()) {
+            if (!TABLE_ATTRIBUTES.includes(name)) element.removeAttribute(name);
+            else if (name === "href" || name === "src") element.setAttribute(name, resolve(element.getAttribute(name)!));
+        }
+    }
+    return copy.outerHTML
+        .replace(/\s+/g, " ")
+        .replace(/>\s+</g, "><")
+        .replace(/<(tr|thead|tbody|tfoot|caption)\b/g, "\n<$1")
+        .replace(/<\/table>$/, "\n</table>");
+}
+
+// ============== Code ==============
+
+function codeText(pre: Element): string {
+    const deep = true;
+    const copy = pre.cloneNode(deep) as Element;
+    for (const element of [...copy.querySelectorAll(LINE_NUMBERS.map((name) => `.${name}`).join(", "))]) {
+        element.remove();
+    }
+    // Some highlighters break lines with <br> instead of newlines
+    return copy.innerHTML.includes("<br")
+        ? (copy.innerHTML.replace(/<br\s*\/?>/gi, "\n").replace(/<[^>]+>/g, "")
+            .replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, "&"))
+        : copy.textContent || "";
+}
+
+/**
+ * Language from language-x / lang-x classes or data-lang on the block, its <code>
+ * or a highlighter wrapper (Rouge, GitHub, Pygments, SyntaxHighlighter, Pandoc)
+ */
+function codeLanguage(pre: Element): string {
+    const candidates = [pre.querySelector("code"), pre, pre.parentElement, pre.parentElement?.parentElement];
+    for (const element of candidates) {
+        if (!element) continue;
+        const className = element.getAttribute("class") || "";
+        const language = element.getAttribute("data-lang") || element.getAttribute("data-language") ||
+            /(?:^|\s)(?:language|lang|highlight-source|highlight)-([\w#+.-]+)/i.exec(className)?.[1] ||
+            /brush:\s*([\w#+.-]+)/i.exec(className)?.[1] ||
+            /(?:^|\s)(?:sourceCode|hljs)\s+([\w#+.-]+)/.exec(className)?.[1];
+        if (language) {
+            const name = language.toLowerCase();
+            return PLAIN_LANGUAGES.includes(name) || /^language-/.test(name) ? "" : name;
+        }
+    }
+    return "";
+}
+
+// ============== Math ==============
+
+/**
+ * LaTeX source of a math element: explicit TeX (data-latex, TeX annotation,
+ * MathJax script, alttext) when present, else converted from its MathML
+ */
+function mathSource(node: Element): string | undefined {
+    if (node.nodeName === "SCRIPT") return node.textContent?.trim() || undefined;
+
+    const math = node.nodeName === "MATH" ? node : node.querySelector("math") ??
+        mathFromAttribute(node.getAttribute("data-mathml"), node);
+    const tex = node.getAttribute("data-latex") || math?.getAttribute("data-latex") ||
+        node.querySelector('annotation[encoding="application/x-tex"]')?.textContent ||
+        math?.getAttribute("alttext") || node.querySelector("img[alt]")?.getAttribute("alt") ||
+        (math ? mathmlToTex(math) : undefined);
+    return tex?.trim().replace(/^\{\\(?:display|text)style\s*(.*)\}$/s, "$1").trim() || undefined;
+}
+
+function mathFromAttribute(markup: string | null, node: Element): Element | undefined {
+    if (!markup) return undefined;
+    const holder = node.ownerDocument?.createElement("div");
+    if (!holder) return undefined;
+    holder.innerHTML = markup;
+    return holder.querySelector("math") ?? undefined;
+}
+
+function isDisplayMath(node: Element): boolean {
+    if (node.getAttribute("display") === "block" || node.getAttribute("display") === "true") return true;
+    if (node.querySelector('math[display="block"], .katex-display, .mwe-math-mathml-display')) return true;
+    if (/mode=display/i.test(node.getAttribute("type") || "")) return true;
+    return hasClass(node, "katex-display") || hasClass(node, "MathJax_Display") ||
+        hasClass(node.parentElement, "katex-display") || hasClass(node.parentElement, "MathJax_Display");
+}
+
+/**
+ * Presentation MathML to LaTeX, covering the elements pages commonly use
+ */
+function mathmlToTex(node: Element): string {
+    const name = node.nodeName.toLowerCase();
+    const children = [...node.children] as Element[];
+    const parts = children.map(mathmlToTex);
+    const text = (node.textContent || "").trim();
+    const group = (part: string | undefined) => `{${part ?? ""}}`;
+
+    switch (name) {
+        case "mi":
+        case "mn":
+        case "mo":
+            return [...text].map((char) => MATH_SYMBOLS[char] ?? char).join("");
+        case "mtext":
+            return text ? `\\text{${text}}` : "";
+        case "mspace":
+            return "\\ ";
+        case "mfrac":
+            return `\\frac${group(parts[0])}${group(parts[1])}`;
+        case "msqrt":
+            return `\\sqrt{${parts.join(" ")}}`;
+        case "mroot":
+            return `\\sqrt[${parts[1] ?? ""}]${group(parts[0])}`;
+        case "msup":
+            return `${group(parts[0])}^${group(parts[1])}`;
+        case "msub":
+            return `${group(parts[0])}_${group(parts[1])}`;
+        case "msubsup":
+        case "munderover":
+            return `${group(parts[0])}_${group(parts[1])}^${group(parts[2])}`;
+        case "mover":
+            if (parts[1] === "¯" || parts[1] === "‾") return `\\overline${group(parts[0])}`;
+            if (parts[1] === "^") return `\\hat${group(parts[0])}`;
+            if (parts[1] === "~") return `\\tilde${group(parts[0])}`;
+            if (parts[1] === "\\to") return `\\vec${group(parts[0])}`;
+            return `\\overset${group(parts[1])}${group(parts[0])}`;
+        case "munder":
+            return `\\underset${group(parts[1])}${group(parts[0])}`;
+        case "mfenced":
+            return `\\left${node.getAttribute("open") ?? "("} ${parts.join(", ")} \\right${node.getAttribute("close") ?? ")"}`;
+        case "mtable":
+            return `\\begin{matrix} ${parts.join(" \\\\ ")} \\end{matrix}`;
+        case "mtr":
+            return parts.join(" & ");
+        case "semantics":
+            return parts[0] ?? "";
+        case "annotation":
+        case "annotation-xml":
+            return "";
+        default:
+            return parts.join(" ");
+    }
+}
+
+// ============== Footnotes & embeds ==============
+
+function isFootnoteLink(node: Element): boolean {
+    return node.nodeName === "A" && (node.getAttribute("href") || "").startsWith("#") && FOOTNOTE_ID.test(fragment(node));
+}
+
+function fragment(link: Element): string {
+    const href = (link.getAttribute("href") || "").replace(/^#/, "");
+    try {
+        return decodeURIComponent(href);
+    } catch {
+        return href;
+    }
+}
+
+/**
+ * Footnote label from the note's id, the same for the reference and the note: fn:1 → 1, cite_note-Smith-3 → Smith-3
+ */
+function footnoteLabel(id: string): string {
+    return id.replace(FOOTNOTE_ID, "").replace(/[\s[\]^]+/g, "-") || id;
+}
+
+/**
+ * Status URL of an embedded tweet (its date link)
+ */
+function tweetStatus(blockquote: Element): string | undefined {
+    return ([...blockquote.querySelectorAll("a[href]")] as Element[])
+        .map((link) => link.getAttribute("href") || "")
+        .filter((href) => /\/status\/\d+/.test(href))
+        .pop();
+}
+
+/**
+ * Watch URL for a video or tweet player iframe
+ */
+function embedUrl(src: string): { kind: string; url: string } | undefined {
+    const youtube = /(?:youtube(?:-nocookie)?\.com\/embed\/|youtu\.be\/)([\w-]{6,})/.exec(src);
+    if (youtube) return { kind: "YouTube", url: `https://www.youtube.com/watch?v=${youtube[1]}` };
+    const vimeo = /player\.vimeo\.com\/video\/(\d+)/.exec(src);
+    if (vimeo) return { kind: "Vimeo", url: `https://vimeo.com/${vimeo[1]}` };
+    const dailymotion = /dailymotion\.com\/embed\/video\/(\w+)/.exec(src);
+    if (dailymotion) return { kind: "Dailymotion", url: `https://www.dailymotion.com/video/${dailymotion[1]}` };
+    const tweet = /platform\.twitter\.com\/embed\/Tweet\.html\?(?:.*&)?id=(\d+)/.exec(src);
+    if (tweet) return { kind: "Tweet", url: `https://twitter.com/i/status/${tweet[1]}` };
+    return undefined;
+}
+
+function embedLink(kind: string, title: string | null | undefined, url: string): string {
+    const label = title?.trim() ? `${kind}: ${title.trim()}` : kind === "Tweet" ? kind : `${kind} video`;
+    return `\n\n[${label.replace(/([[\]])/g, "\\$1")}](${url})\n\n`;
+}
+
+// ============== Helpers ==============
+
+function childrenOf(node: Element, nodeName: string): Element[] {
+    return [...node.children].filter((child) => child.nodeName === nodeName);
+}
+
+function hasClass(node: Element | null | undefined, name: string): boolean {
+    return (node?.getAttribute("class") || "").split(/\s+/).includes(name);
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
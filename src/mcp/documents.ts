@@ -0,0 +1,100 @@
+/**
+ * MCP Document Store
+ * Holds converted documents between paginated fetch_url calls, so following
+ * pages are served from memory instead of converting the URL again.
+ */
+
+import { readEnv } from "../utils.ts";
+
+export interface HeldDocument {
+    /** MCP session the document was converted for; other sessions cannot read it */
+    session: string;
+    url: string;
+    content: string;
+    meta: Record<string, unknown>;
+    expiresAt: number;
+}
+
+export interface DocumentPage {
+    text: string;
+    startIndex: number;
+    /** Exclusive end of this page in the full document */
+    endIndex: number;
+    totalLength: number;
+    hasMore: boolean;
+}
+
+const DOCUMENT_TTL_MS = Number(readEnv("MCP_DOCUMENT_TTL") || 1800) * 1000;
+const MAX_DOCUMENTS = Number(readEnv("MCP_MAX_DOCUMENTS") || 100);
+// A page may end this much earlier to stop at a paragraph or line break
+const BOUNDARY_SLACK = 0.2;
+
+// Shared by all sessions so MAX_DOCUMENTS bounds memory; map order doubles as LRU order
+const documents = new Map<string, HeldDocument>();
+
+/**
+ * Keep a document for later pages of the same session and return its id
+ */
+export function holdDocument(session: string, url: string, content: string, meta: Record<string, unknown>): string {
+    prune();
+    const id = crypto.randomUUID();
+    documents.set(id, { session, url, content, meta, expiresAt: Date.now() + DOCUMENT_TTL_MS });
+    while (documents.size > MAX_DOCUMENTS) {
+        documents.delete(documents.keys().next().value!);
+    }
+    return id;
+}
+
+/**
+ * Look up a document held for this session, extending its lifetime
+ */
+export function getDocument(session: string, id: string): HeldDocument | undefined {
+    prune();
+    const document = documents.get(id);
+    if (!document || document.session !== session) return undefined;
+    documents.delete(id);
+    document.expiresAt = Date.now() + DOCUMENT_TTL_MS;
+    documents.set(id, document);
+    return document;
+}
+
+/**
+ * Cut a window of at most maxLength characters, preferring to end at a paragraph or line break
+ */
+export function pageOf(content: string, startIndex: number, maxLength: number): DocumentPage {
+    const start = Math.min(Math.max(0, startIndex), content.length);
+    let end = Math.min(start + maxLength, content.length);
+
+    if (end < content.length) {
+        const window = content.slice(start, end);
+        const floor = window.length * (1 - BOUNDARY_SLACK);
+        const paragraph = window.lastIndexOf("\n\n");
+        const line = window.lastIndexOf("\n");
+        if (paragraph >= floor) end = start + paragraph + 2;
+        else if (line >= floor) end = start + line + 1;
+    }
+
+    return {
+        text: content.slice(start, end),
+        startIndex: start,
+        endIndex: end,
+        totalLength: content.length,
+        hasMore: end < content.length,
+    };
+}
+
+export function encodeCursor(id: string, offset: number): string {
+    return `${id}:${offset}`;
+}
+
+export function decodeCursor(cursor: string): { id: string; offset: number } | undefined {
+    const match = /^([\w-]+):(\d+)$/.exec(cursor);
+    return match ? { id: match[1], offset: Number(match[2]) } : undefined;
+}
+
+function prune(): void {
+    const now = Date.now();
+    for (const [id, document] of documents) {
+        if (document.expiresAt <= now) documents.delete(id);
+    }
+}
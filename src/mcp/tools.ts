@@ -5,48 +5,141 @@
 
 import type { McpServer } from "npm:@modelcontextprotocol/sdk@1.11.0/server/mcp.js";
 import { z } from "npm:zod@3.25.1";
-import { handleConversion, type ConversionOptions } from "../core/conversion.ts";
-import type { Strategy } from "../strategies/mod.ts";
+import { ConversionError, convertHtml, fetchMetadata, handleConversion, type ConversionOptions } from "../core/conversion.ts";
+import { getStrategyNames, type Strategy } from "../strategies/mod.ts";
+import { EXTRACTORS, type Extractor } from "../extractors.ts";
+import { MAX_PAGES } from "../pagination.ts";
+import { LINK_STYLES, type LinkStyle } from "../markdown-rules.ts";
+import { cancelCrawl, crawlToMarkdown, getCrawl, startCrawl, waitForCrawl } from "../crawl/mod.ts";
+import { feedToMarkdown, ingestFeed } from "../feeds/mod.ts";
+import { convertMany, type UrlResult } from "../core/stream.ts";
+import { chunkMarkdown, MAX_CHUNK_SIZE, MIN_CHUNK_SIZE, resolveChunkOptions } from "../chunking.ts";
+import { decodeCursor, encodeCursor, getDocument, holdDocument, pageOf } from "./documents.ts";
 
 /**
  * Register MCP tools on the server
  */
 export function registerTools(server: McpServer): void {
+    // Strategy enum is derived from the registry so custom fetchers show up automatically
+    const strategyNames = getStrategyNames() as [string, ...string[]];
+    // Each MCP session gets its own server, so held documents are scoped to this registration
+    const session = crypto.randomUUID();
+
     // Tool: fetch_url - Fetch a single URL and convert to Markdown
     server.tool(
         "fetch_url",
-        "Fetch a URL and convert its content to Markdown. Supports paywall bypass strategies.",
+        "Fetch a URL and convert its content to Markdown. Supports paywall bypass strategies. Long documents can be read in pages with maxLength and the returned cursor.",
         {
             url: z.string().url().describe("The URL to fetch and convert to Markdown"),
             bypass: z.boolean().optional().default(true).describe("Enable automatic multi-strategy fetch for best results (recommended)"),
             preserveImages: z.boolean().optional().default(true).describe("Preserve images in the Markdown output"),
-            strategy: z.enum(["direct", "googlebot", "facebookbot", "bingbot", "archive", "12ft", "jina", "exa"]).optional().describe("Specific fetch strategy to use"),
+            strategy: z.enum(strategyNames).optional().describe("Specific fetch strategy to use"),
+            frontMatter: z.boolean().optional().describe("Prefix the Markdown with YAML front matter (title, authors, dates, site, word count)"),
+            extractor: z.enum(EXTRACTORS as [Extractor, ...Extractor[]]).optional().describe("Main-content extractor; auto runs all and keeps the best-scoring result"),
+            includeSelector: z.string().optional().describe("CSS selector; convert only the matching elements (e.g. \"article .post-body\")"),
+            excludeSelector: z.string().optional().describe("CSS selector; remove matching elements before conversion (e.g. \".comments, aside\")"),
+            followPages: z.boolean().optional().describe(`Follow "next page" links of articles split across pages and stitch them into one document (up to ${MAX_PAGES} pages)`),
+            comments: z.enum(["quote", "list"]).optional().describe("Append the page's comment thread (forums, Hacker News, Reddit, blog comments) as nested blockquotes or lists"),
+            linkStyle: z.enum(LINK_STYLES as [LinkStyle, ...LinkStyle[]]).optional().describe("How links are written: inline, referenced (numbered list at the end, default), footnote, or strip (text only)"),
+            chunk: z.boolean().optional().describe("Split the Markdown into heading-aware chunks (one content item per chunk)"),
+            chunkSize: z.number().int().min(MIN_CHUNK_SIZE).max(MAX_CHUNK_SIZE).optional().describe("Chunk budget in chunkUnit (default 512 tokens)"),
+            chunkOverlap: z.number().int().min(0).max(MAX_CHUNK_SIZE).optional().describe("Overlap between consecutive chunks in chunkUnit (default 64 tokens)"),
+            chunkUnit: z.enum(["tokens", "chars"]).optional().describe("Unit for chunkSize and chunkOverlap"),
+            maxLength: z.number().int().min(1000).optional().describe("Return at most this many characters; longer documents are paginated"),
+            startIndex: z.number().int().min(0).optional().describe("Character offset to start from (for pagination)"),
+            cursor: z.string().optional().describe("Continuation cursor from a previous call; serves the next page without refetching"),
         },
-        async ({ url, bypass, preserveImages, strategy }) => {
+        async ({ url, bypass, preserveImages, strategy, frontMatter, extractor, includeSelector, excludeSelector, followPages, comments, linkStyle, chunk, chunkSize, chunkOverlap, chunkUnit, maxLength, startIndex, cursor }, extra) => {
             try {
-                const options: ConversionOptions = {
-                    bypass: bypass ?? false,
-                    preserveImages: preserveImages ?? true,
-                    strategy: strategy as Strategy | undefined,
-                    download: false,
-                    jsonFormat: false,
-                    useCache: true,
-                };
+                const position = cursor ? decodeCursor(cursor) : undefined;
+                if (cursor && !position) {
+                    throw new Error(`Invalid cursor "${cursor}"`);
+                }
+
+                // Later pages come from the held document; convert again only if it expired
+                const held = position ? getDocument(session, position.id) : undefined;
+                let content: string;
+                let meta: Record<string, unknown>;
+                if (held) {
+                    content = held.content;
+                    meta = { ...held.meta, fromCache: true };
+                } else {
+                    const options: ConversionOptions = {
+                        bypass: bypass ?? false,
+                        preserveImages: preserveImages ?? true,
+                        strategy: strategy as Strategy | undefined,
+                        download: false,
+                        jsonFormat: false,
+                        frontMatter,
+                        extractor,
+                        includeSelector,
+                        excludeSelector,
+                        followPages: followPages ? MAX_PAGES : undefined,
+                        comments,
+                        linkStyle,
+                        useCache: true,
+                    };
+
+                    const result = await handleConversion(url, options, extra.signal);
+                    content = result.content;
+                    meta = {
+                        strategy: result.strategy,
+                        elapsed: result.elapsed,
+                        fromCache: result.fromCache,
+                        title: result.title,
+                        rule: result.rule,
+                        pages: result.pages,
+                        attempts: result.attempts ?? [],
+                    };
+                }
+
+                if (chunk) {
+                    const chunking = resolveChunkOptions({ size: chunkSize, overlap: chunkOverlap, unit: chunkUnit });
+                    const chunks = await chunkMarkdown(content, url, chunking);
+
+                    return {
+                        content: chunks.map((c) => ({ type: "text" as const, text: c.content })),
+                        _meta: {
+                            ...meta,
+                            chunks: chunks.map(({ content: _content, ...c }) => c),
+                        },
+                    };
+                }
+
+                const offset = position?.offset ?? startIndex ?? 0;
+                if (maxLength === undefined && offset === 0) {
+                    return {
+                        content: [
+                            {
+                                type: "text" as const,
+                                text: content,
+                            },
+                        ],
+                        _meta: meta,
+                    };
+                }
 
-                const result = await handleConversion(url, options);
+                const page = pageOf(content, offset, maxLength ?? content.length);
+                const documentId = page.hasMore ? (held ? position!.id : holdDocument(session, url, content, meta)) : undefined;
+                const nextCursor = documentId ? encodeCursor(documentId, page.endIndex) : undefined;
+                const hint = nextCursor
+                    ? `\n\n---\n[Characters ${page.startIndex}-${page.endIndex} of ${page.totalLength}. Call fetch_url again with cursor "${nextCursor}" to continue.]`
+                    : "";
 
                 return {
                     content: [
                         {
                             type: "text" as const,
-                            text: result.content,
+                            text: page.text + hint,
                         },
                     ],
                     _meta: {
-                        strategy: result.strategy,
-                        elapsed: result.elapsed,
-                        fromCache: result.fromCache,
-                        title: result.title,
+                        ...meta,
+                        startIndex: page.startIndex,
+                        endIndex: page.endIndex,
+                        totalLength: page.totalLength,
+                        hasMore: page.hasMore,
+                        nextCursor,
                     },
                 };
             } catch (error) {
@@ -59,6 +152,9 @@ export function registerTools(server: McpServer): void {
                         },
                     ],
                     isError: true,
+                    ...(error instanceof ConversionError && {
+                        _meta: { rule: error.rule, attempts: error.attempts },
+                    }),
                 };
             }
         }
@@ -73,51 +169,38 @@ export function registerTools(server: McpServer): void {
             bypass: z.boolean().optional().default(true).describe("Enable automatic multi-strategy fetch for best results (recommended)"),
             preserveImages: z.boolean().optional().default(true).describe("Preserve images in the Markdown output"),
         },
-        async ({ urls, bypass, preserveImages }) => {
-            const results: Array<{ url: string; success: boolean; content?: string; error?: string; strategy?: string }> = [];
-
-            // Process URLs in parallel with concurrency limit
-            const CONCURRENCY = 3;
-            for (let i = 0; i < urls.length; i += CONCURRENCY) {
-                const batch = urls.slice(i, i + CONCURRENCY);
-                const batchResults = await Promise.allSettled(
-                    batch.map(async (url) => {
-                        const options: ConversionOptions = {
-                            bypass: bypass ?? false,
-                            preserveImages: preserveImages ?? true,
-                            strategy: undefined,
-                            download: false,
-                            jsonFormat: false,
-                            useCache: true,
-                        };
-
-                        const result = await handleConversion(url, options);
-                        return { url, result };
-                    })
-                );
-
-                for (const outcome of batchResults) {
-                    if (outcome.status === "fulfilled") {
-                        results.push({
-                            url: outcome.value.url,
-                            success: true,
-                            content: outcome.value.result.content,
-                            strategy: outcome.value.result.strategy,
-                        });
-                    } else {
-                        const url = batch[batchResults.indexOf(outcome)];
-                        results.push({
-                            url,
-                            success: false,
-                            error: outcome.reason?.message || "Unknown error",
-                        });
-                    }
+        async ({ urls, bypass, preserveImages }, extra) => {
+            const options: ConversionOptions = {
+                bypass: bypass ?? false,
+                preserveImages: preserveImages ?? true,
+                strategy: undefined,
+                download: false,
+                jsonFormat: false,
+                useCache: true,
+            };
+
+            // Report each finished URL as progress when the client asked for it
+            const progressToken = extra._meta?.progressToken;
+            const results: UrlResult[] = [];
+            for await (const result of convertMany(urls, options, extra.signal)) {
+                results.push(result);
+                if (progressToken !== undefined) {
+                    await extra.sendNotification({
+                        method: "notifications/progress",
+                        params: {
+                            progressToken,
+                            progress: results.length,
+                            total: urls.length,
+                            message: `${result.status === "converted" ? "Converted" : "Failed"}: ${result.url}`,
+                        },
+                    }).catch(() => {});
                 }
             }
+            results.sort((a, b) => a.index - b.index);
 
             // Format output
             const output = results.map((r) => {
-                if (r.success) {
+                if (r.status === "converted") {
                     return `## ${r.url}\n\n${r.content}\n\n---\n`;
                 } else {
                     return `## ${r.url}\n\n**Error:** ${r.error}\n\n---\n`;
@@ -133,10 +216,212 @@ export function registerTools(server: McpServer): void {
                 ],
                 _meta: {
                     totalUrls: urls.length,
-                    successful: results.filter((r) => r.success).length,
-                    failed: results.filter((r) => !r.success).length,
+                    successful: results.filter((r) => r.status === "converted").length,
+                    failed: results.filter((r) => r.status === "failed").length,
                 },
             };
         }
     );
+    // Tool: convert_html - Convert HTML the client already has
+    server.tool(
+        "convert_html",
+        "Convert an HTML document to Markdown without fetching anything. Uses the same extraction pipeline as fetch_url.",
+        {
+            html: z.string().min(1).describe("The HTML document to convert"),
+            baseUrl: z.string().url().optional().describe("URL the HTML came from, used to resolve relative links and images"),
+            preserveImages: z.boolean().optional().default(true).describe("Preserve images in the Markdown output"),
+            extractor: z.enum(EXTRACTORS as [Extractor, ...Extractor[]]).optional().describe("Main-content extractor; auto runs all and keeps the best-scoring result"),
+            linkStyle: z.enum(LINK_STYLES as [LinkStyle, ...LinkStyle[]]).optional().describe("How links are written: inline, referenced (default), footnote, or strip"),
+        },
+        ({ html, baseUrl, preserveImages, extractor, linkStyle }) => {
+            try {
+                const result = convertHtml(html, {
+                    baseUrl,
+                    preserveImages: preserveImages ?? true,
+                    jsonFormat: false,
+                    extractor,
+                    linkStyle,
+                });
+
+                return {
+                    content: [
+                        {
+                            type: "text" as const,
+                            text: result.content,
+                        },
+                    ],
+                    _meta: {
+                        elapsed: result.elapsed,
+                        title: result.title,
+                    },
+                };
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                return {
+                    content: [
+                        {
+                            type: "text" as const,
+                            text: `Error converting HTML: ${message}`,
+                        },
+                    ],
+                    isError: true,
+                };
+            }
+        }
+    );
+    // Tool: crawl_site - Convert a site section by following same-origin links
+    server.tool(
+        "crawl_site",
+        "Crawl a website section starting from a URL, following same-origin links (respecting robots.txt), and return every page as Markdown.",
+        {
+            url: z.string().url().describe("Seed URL to start crawling from"),
+            maxDepth: z.number().int().min(0).max(5).optional().default(2).describe("How many link hops to follow from the seed"),
+            maxPages: z.number().int().min(1).max(50).optional().default(10).describe("Maximum number of pages to convert"),
+            include: z.array(z.string()).optional().describe("Path globs pages must match, e.g. [\"/docs/**\"]"),
+            exclude: z.array(z.string()).optional().describe("Path globs to skip, e.g. [\"/docs/archive/**\"]"),
+            bypass: z.boolean().optional().default(false).describe("Use multi-strategy fetch for each page"),
+            preserveImages: z.boolean().optional().default(true).describe("Preserve images in the Markdown output"),
+        },
+        async ({ url, maxDepth, maxPages, include, exclude, bypass, preserveImages }, extra) => {
+            const manifest = startCrawl({ url, maxDepth, maxPages, include, exclude, bypass, preserveImages });
+
+            try {
+                await waitForCrawl(manifest.id, extra.signal);
+            } catch {
+                cancelCrawl(manifest.id);
+            }
+
+            const final = getCrawl(manifest.id) ?? manifest;
+            const converted = final.pages.filter((page) => page.status === "converted").length;
+            const index = final.pages
+                .map((page) => `- ${page.url} (${page.status}${page.error ? `: ${page.error}` : ""})`)
+                .join("\n");
+
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `# Crawl of ${final.seed}\n\n${converted} page(s) converted, status: ${final.status}\n\n${index}\n\n---\n\n${crawlToMarkdown(manifest.id) ?? ""}`,
+                    },
+                ],
+                isError: converted === 0,
+                _meta: {
+                    crawlId: final.id,
+                    status: final.status,
+                    pages: final.pages,
+                },
+            };
+        }
+    );
+
+    // Tool: get_metadata - Page metadata without converting the content
+    server.tool(
+        "get_metadata",
+        "Fetch a URL and return its metadata (title, authors, dates, site, canonical URL, language, description, image, keywords) merged from JSON-LD, OpenGraph, Twitter Card, Dublin Core and meta tags, with the source of each field.",
+        {
+            url: z.string().url().describe("The URL to read metadata from"),
+            bypass: z.boolean().optional().default(false).describe("Use multi-strategy fetch"),
+            strategy: z.enum(strategyNames).optional().describe("Specific fetch strategy to use"),
+            raw: z.boolean().optional().describe("Also return the values found in each source"),
+        },
+        async ({ url, bypass, strategy, raw }, extra) => {
+            try {
+                const { raw: sources, attempts: _attempts, ...metadata } = await fetchMetadata(url, {
+                    bypass: bypass ?? false,
+                    strategy: strategy as Strategy | undefined,
+                }, extra.signal);
+
+                return {
+                    content: [
+                        {
+                            type: "text" as const,
+                            text: JSON.stringify(raw ? { ...metadata, raw: sources } : metadata, null, 2),
+                        },
+                    ],
+                    _meta: {
+                        strategy: metadata.strategy,
+                        elapsed: metadata.elapsed,
+                    },
+                };
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                return {
+                    content: [
+                        {
+                            type: "text" as const,
+                            text: `Error reading metadata: ${message}`,
+                        },
+                    ],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // Tool: fetch_feed - Convert the entries of a sitemap or RSS/Atom feed
+    server.tool(
+        "fetch_feed",
+        "Read a sitemap.xml or RSS/Atom feed, pick entries by date and path, and return each entry as Markdown with its feed metadata (title, date, author).",
+        {
+            url: z.string().url().describe("Sitemap, sitemap index, RSS or Atom feed URL"),
+            since: z.string().optional().describe("Only entries published on or after this date (ISO 8601)"),
+            until: z.string().optional().describe("Only entries published before this date (ISO 8601)"),
+            include: z.array(z.string()).optional().describe("Path globs entries must match, e.g. [\"/blog/**\"]"),
+            exclude: z.array(z.string()).optional().describe("Path globs to skip"),
+            limit: z.number().int().min(1).max(25).optional().default(5).describe("Maximum number of entries to convert, newest first"),
+            bypass: z.boolean().optional().default(false).describe("Use multi-strategy fetch for each entry"),
+            preserveImages: z.boolean().optional().default(true).describe("Preserve images in the Markdown output"),
+        },
+        async ({ url, since, until, include, exclude, limit, bypass, preserveImages }, extra) => {
+            try {
+                const date = (value: string | undefined, name: string) => {
+                    if (!value) return undefined;
+                    const parsed = new Date(value);
+                    if (Number.isNaN(parsed.getTime())) throw new Error(`Invalid '${name}' date: ${value}`);
+                    return parsed;
+                };
+                const result = await ingestFeed({
+                    url,
+                    since: date(since, "since"),
+                    until: date(until, "until"),
+                    include,
+                    exclude,
+                    limit,
+                    bypass,
+                    preserveImages,
+                }, extra.signal);
+
+                const converted = result.items.filter((item) => item.status === "converted").length;
+                const index = result.items
+                    .map((item) => `- ${item.title ?? item.url} (${item.published ?? "undated"}, ${item.status}${item.error ? `: ${item.error}` : ""})`)
+                    .join("\n");
+
+                return {
+                    content: [
+                        {
+                            type: "text" as const,
+                            text: `${converted} of ${result.matched} matching entries converted\n\n${index}\n\n---\n\n${feedToMarkdown(result)}`,
+                        },
+                    ],
+                    isError: converted === 0,
+                    _meta: {
+                        feed: result.feed,
+                        matched: result.matched,
+                        items: result.items.map(({ content: _content, ...item }) => item),
+                    },
+                };
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                return {
+                    content: [
+                        {
+                            type: "text" as const,
+                            text: `Error reading feed: ${message}`,
+                        },
+                    ],
+                    isError: true,
+                };
+            }
+        }
+    );
 }
@@ -0,0 +1,370 @@
+/**
+ * Page Metadata Module
+ * Merges JSON-LD (including @graph, nested nodes and @id references),
+ * OpenGraph, Twitter Card, Dublin Core and standard <meta>/<link> tags into
+ * one normalized record. Each field is taken from the highest-precedence
+ * source that has it, and the record notes which source that was.
+ */
+
+import type { HTMLDocument } from "deno-dom";
+
+export type MetadataSource = "json-ld" | "opengraph" | "twitter" | "dublin-core" | "meta" | "html";
+
+export interface PageMetadata {
+    title?: string;
+    authors?: string[];
+    /** ISO 8601 when the source date parses, otherwise as published */
+    published?: string;
+    modified?: string;
+    siteName?: string;
+    canonical?: string;
+    language?: string;
+    description?: string;
+    /** Lead image URL */
+    image?: string;
+    keywords?: string[];
+    /** Content type, e.g. "NewsArticle" or "article" */
+    type?: string;
+    /** Source each field was taken from */
+    sources?: Partial<Record<MetadataField, MetadataSource>>;
+}
+
+export type MetadataField = Exclude<keyof PageMetadata, "sources">;
+
+/** A JSON-LD object; values are narrowed where they are read */
+export type LdNode = Record<string, unknown>;
+
+/**
+ * Normalized metadata plus everything found per source
+ */
+export interface MetadataReport extends PageMetadata {
+    raw: {
+        jsonLd: unknown[];
+        openGraph: Record<string, string | string[]>;
+        twitter: Record<string, string>;
+        dublinCore: Record<string, string>;
+        meta: Record<string, string>;
+    };
+}
+
+/** Default source order, most trusted first */
+export const SOURCE_PRECEDENCE: readonly MetadataSource[] = ["json-ld", "opengraph", "twitter", "dublin-core", "meta", "html"];
+
+// Fields where the document's own markup is more reliable than the social tags
+const FIELD_PRECEDENCE: Partial<Record<MetadataField, readonly MetadataSource[]>> = {
+    canonical: ["html", "json-ld", "opengraph", "twitter", "dublin-core", "meta"],
+    language: ["html", "json-ld", "dublin-core", "meta", "opengraph", "twitter"],
+};
+
+// JSON-LD types describing the page's main content, most specific first
+const CONTENT_TYPES = [
+    "NewsArticle", "ReportageNewsArticle", "AnalysisNewsArticle", "OpinionNewsArticle", "BlogPosting",
+    "TechArticle", "ScholarlyArticle", "Article", "Report", "Recipe", "Product", "Event", "JobPosting",
+    "HowTo", "FAQPage", "QAPage", "VideoObject", "Book", "Course", "Review",
+    "ItemPage", "ProfilePage", "AboutPage", "CollectionPage", "WebPage",
+];
+
+type Candidates = Partial<Record<MetadataField, string | string[]>>;
+
+/**
+ * Extract normalized metadata from a parsed HTML page
+ * @param url - Page URL, used to resolve relative canonical and image links
+ */
+export function extractMetadata(doc: HTMLDocument, url?: string): PageMetadata {
+    const { raw: _raw, ...metadata } = extractMetadataReport(doc, url);
+    return metadata;
+}
+
+/**
+ * Extract normalized metadata together with the raw values of every source
+ */
+export function extractMetadataReport(doc: HTMLDocument, url?: string): MetadataReport {
+    const raw: MetadataReport["raw"] = { jsonLd: [], openGraph: {}, twitter: {}, dublinCore: {}, meta: {} };
+    const tags = readMetaTags(doc);
+    const items = readJsonLd(doc);
+    const nodes = typedNodes(items);
+    raw.jsonLd = items;
+
+    for (const [key, values] of tags) {
+        if (key.startsWith("og:") || key.startsWith("article:") || key.startsWith("book:") || key.startsWith("profile:")) {
+            raw.openGraph[key] = values.length > 1 ? values : values[0];
+        } else if (key.startsWith("twitter:")) {
+            raw.twitter[key] = values[0];
+        } else if (/^(dc|dcterms)\./.test(key)) {
+            raw.dublinCore[key] = values[0];
+        } else {
+            raw.meta[key] = values[0];
+        }
+    }
+
+    const tag = (...keys: string[]) => keys.map((key) => tags.get(key)?.[0]).find(Boolean);
+    const candidates: Record<MetadataSource, Candidates> = {
+        "json-ld": fromJsonLd(nodes),
+        opengraph: {
+            title: tag("og:title"),
+            authors: tags.get("article:author") ?? tags.get("book:author"),
+            published: tag("article:published_time", "og:published_time"),
+            modified: tag("article:modified_time", "og:updated_time"),
+            siteName: tag("og:site_name"),
+            canonical: tag("og:url"),
+            language: tag("og:locale")?.replace("_", "-"),
+            description: tag("og:description"),
+            image: tag("og:image:secure_url", "og:image", "og:image:url"),
+            keywords: tags.get("article:tag"),
+            type: tag("og:type"),
+        },
+        twitter: {
+            // twitter:creator and twitter:site are @handles, so they stay in `raw` only
+            title: tag("twitter:title"),
+            description: tag("twitter:description"),
+            image: tag("twitter:image", "twitter:image:src"),
+        },
+        "dublin-core": {
+            title: tag("dc.title", "dcterms.title"),
+            // One creator per tag, often "Last, First"
+            authors: tags.get("dc.creator") ?? tags.get("dcterms.creator"),
+            published: tag("dcterms.issued", "dc.date.issued", "dcterms.created", "dc.date", "dcterms.date"),
+            modified: tag("dcterms.modified", "dc.date.modified"),
+            siteName: tag("dc.publisher", "dcterms.publisher"),
+            language: tag("dc.language", "dcterms.language"),
+            description: tag("dc.description", "dcterms.description", "dcterms.abstract"),
+            keywords: tag("dc.subject", "dcterms.subject"),
+            type: tag("dc.type", "dcterms.type"),
+        },
+        meta: {
+            title: tag("citation_title", "parsely-title", "sailthru.title"),
+            authors: tags.get("citation_author") ?? splitNames(tags.get("author") ?? tags.get("parsely-author") ?? tags.get("sailthru.author")),
+            published: tag("citation_publication_date", "citation_date", "parsely-pub-date", "date", "pubdate", "publishdate", "sailthru.date"),
+            modified: tag("last-modified", "revised"),
+            siteName: tag("application-name", "citation_journal_title"),
+            language: tag("content-language", "language"),
+            description: tag("description"),
+            keywords: tag("keywords", "news_keywords", "parsely-tags"),
+        },
+        html: {
+            title: doc.querySelector("title")?.textContent ?? undefined,
+            canonical: doc.querySelector('link[rel="canonical"]')?.getAttribute("href") ?? undefined,
+            language: doc.documentElement?.getAttribute("lang") ?? undefined,
+            authors: doc.querySelector('[rel="author"]')?.textContent ?? undefined,
+            published: doc.querySelector("time[datetime]")?.getAttribute("datetime") ?? undefined,
+        },
+    };
+
+    const metadata: PageMetadata = {};
+    const sources: PageMetadata["sources"] = {};
+    const fields: MetadataField[] = [
+        "title", "authors", "published", "modified", "siteName", "canonical",
+        "language", "description", "image", "keywords", "type",
+    ];
+
+    for (const field of fields) {
+        for (const source of FIELD_PRECEDENCE[field] ?? SOURCE_PRECEDENCE) {
+            const value = normalize(field, candidates[source][field], url);
+            if (value === undefined) continue;
+            setField(metadata, field, value);
+            sources[field] = source;
+            break;
+        }
+    }
+
+    return { ...metadata, sources, raw };
+}
+
+function setField<K extends MetadataField>(metadata: PageMetadata, field: K, value: PageMetadata[K]): void {
+    metadata[field] = value;
+}
+
+/**
+ * Count words in Markdown text; CJK characters count as one word each
+ */
+export function countWords(markdown: string): number {
+    const text = markdown
+        .replace(/```[\s\S]*?```/g, " ")
+        .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+        .replace(/^\[[^\]]+\]:\s+\S+.*$/gm, " ")
+        .replace(/[#>*_`|~-]+/g, " ");
+    const cjk = text.match(/[぀-ヿ㐀-䶿一-鿿가-힯]/g)?.length ?? 0;
+    const words = text
+        .replace(/[぀-ヿ㐀-䶿一-鿿가-힯]/g, " ")
+        .split(/\s+/)
+        .filter((word) => /[\p{L}\p{N}]/u.test(word)).length;
+    return words + cjk;
+}
+
+/**
+ * Meta tag values keyed by lower-cased name, property, itemprop or http-equiv, in document order
+ */
+function readMetaTags(doc: HTMLDocument): Map<string, string[]> {
+    const values = new Map<string, string[]>();
+    for (const element of doc.querySelectorAll("meta")) {
+        const key = (
+            element.getAttribute("property") || element.getAttribute("name") ||
+            element.getAttribute("http-equiv") || element.getAttribute("itemprop") || ""
+        ).toLowerCase();
+        const content = element.getAttribute("content")?.trim();
+        if (!key || !content) continue;
+        const list = values.get(key) ?? [];
+        if (!list.includes(content)) list.push(content);
+        values.set(key, list);
+    }
+    return values;
+}
+
+/**
+ * Parse every JSON-LD script into its top-level entries, with @graph flattened
+ */
+export function readJsonLd(doc: HTMLDocument): LdNode[] {
+    const items: LdNode[] = [];
+    for (const script of doc.querySelectorAll('script[type="application/ld+json"]')) {
+        try {
+            // Some sites wrap the JSON in HTML comments or CDATA
+            const source = (script.textContent || "").replace(/^\s*(<!--|\/\/<!\[CDATA\[)|(-->|\/\/\]\]>)\s*$/g, "");
+            const data: unknown = JSON.parse(source);
+            for (const item of [data].flat()) {
+                if (!item || typeof item !== "object") continue;
+                const graph = (item as LdNode)["@graph"];
+                for (const node of Array.isArray(graph) ? graph : [item]) {
+                    if (node && typeof node === "object") items.push(node as LdNode);
+                }
+            }
+        } catch {
+            // Invalid JSON-LD, try the next script
+        }
+    }
+    return items;
+}
+
+/**
+ * Every typed object found at any depth of the JSON-LD entries
+ */
+function typedNodes(items: LdNode[]): LdNode[] {
+    const nodes: LdNode[] = [];
+    const seen = new Set<object>();
+    const walk = (value: unknown, depth: number) => {
+        if (!value || typeof value !== "object" || seen.has(value) || depth > 8) return;
+        seen.add(value);
+        if (Array.isArray(value)) {
+            for (const entry of value) walk(entry, depth + 1);
+            return;
+        }
+        const node = value as LdNode;
+        if (node["@type"]) nodes.push(node);
+        for (const [key, child] of Object.entries(node)) {
+            if (!key.startsWith("@") || key === "@graph") walk(child, depth + 1);
+        }
+    };
+    walk(items, 0);
+    return nodes;
+}
+
+/**
+ * Pick the main content node and read the normalized fields from it
+ */
+function fromJsonLd(nodes: LdNode[]): Candidates {
+    const byId = new Map<string, LdNode>();
+    for (const node of nodes) {
+        if (typeof node["@id"] === "string") byId.set(node["@id"], { ...byId.get(node["@id"]), ...node });
+    }
+    // Follow {"@id": ...} references to the full node
+    const deref = (value: unknown): unknown => {
+        if (Array.isArray(value)) return value.map(deref);
+        if (value && typeof value === "object") {
+            const node = value as LdNode;
+            if (typeof node["@id"] === "string" && Object.keys(node).length === 1) return byId.get(node["@id"]) ?? node;
+        }
+        return value;
+    };
+
+    const typesOf = (node: LdNode) => [node["@type"]].flat().map(String);
+    const rank = (node: LdNode) => Math.min(...typesOf(node).map((type) => {
+        const index = CONTENT_TYPES.indexOf(type);
+        return index === -1 ? Infinity : index;
+    }));
+    const main = nodes
+        .filter((node) => rank(node) !== Infinity)
+        .sort((a, b) => rank(a) - rank(b))[0];
+    const website = nodes.find((node) => typesOf(node).includes("WebSite"));
+    if (!main) {
+        return { siteName: text(website?.name) };
+    }
+
+    const publisher = deref(main.publisher) ?? deref(main.isPartOf);
+    return {
+        title: text(main.headline ?? main.name),
+        authors: names(deref(main.author ?? main.creator)),
+        published: text(main.datePublished ?? main.uploadDate ?? main.dateCreated ?? main.startDate),
+        modified: text(main.dateModified),
+        siteName: names(publisher)[0] ?? text(website?.name),
+        canonical: text(main.url) ?? text((deref(main.mainEntityOfPage) as LdNode | undefined)?.["@id"] ?? main.mainEntityOfPage),
+        language: text(main.inLanguage ?? website?.inLanguage),
+        description: text(main.description),
+        image: imageUrl(deref(main.image ?? main.thumbnailUrl)),
+        keywords: [main.keywords].flat().filter((keyword): keyword is string => typeof keyword === "string"),
+        type: typesOf(main).find((type) => CONTENT_TYPES.includes(type)),
+    };
+}
+
+function text(value: unknown): string | undefined {
+    if (Array.isArray(value)) return text(value[0]);
+    if (typeof value === "string" || typeof value === "number") return String(value).trim() || undefined;
+    return undefined;
+}
+
+/**
+ * Names from a Person/Organization, a list of them, or plain strings
+ */
+function names(value: unknown): string[] {
+    return [value].flat()
+        .map((entry) => entry && typeof entry === "object" ? text((entry as LdNode).name) : text(entry))
+        .filter((name): name is string => name !== undefined);
+}
+
+/**
+ * Split free-text author lists ("Jane Doe, John Roe and Ann Poe") into names;
+ * structured sources (citation_author, DC creators) already give one name per value
+ */
+function splitNames(values: string[] | undefined): string[] | undefined {
+    return values?.flatMap((entry) => entry.split(/\s*(?:,|;|\band\b|&)\s*/)).filter(Boolean);
+}
+
+function imageUrl(value: unknown): string | undefined {
+    if (Array.isArray(value)) return imageUrl(value[0]);
+    if (value && typeof value === "object") return text((value as LdNode).url ?? (value as LdNode).contentUrl);
+    return text(value);
+}
+
+/**
+ * Clean a candidate value for its field; undefined when nothing usable remains
+ */
+function normalize(field: MetadataField, value: string | string[] | undefined, url?: string): PageMetadata[MetadataField] {
+    if (value === undefined) return undefined;
+    const values = [value].flat().map((entry) => entry.replace(/\s+/g, " ").trim()).filter(Boolean);
+    if (values.length === 0) return undefined;
+
+    switch (field) {
+        case "authors": {
+            // article:author is often a profile URL rather than a name
+            const authors = values.filter((name) => !/^https?:\/\//.test(name));
+            return authors.length > 0 ? [...new Set(authors)] : undefined;
+        }
+        case "keywords": {
+            const keywords = values.flatMap((entry) => entry.split(",")).map((keyword) => keyword.trim()).filter(Boolean);
+            return keywords.length > 0 ? [...new Set(keywords)] : undefined;
+        }
+        case "published":
+        case "modified": {
+            const time = Date.parse(values[0]);
+            return Number.isNaN(time) ? values[0] : new Date(time).toISOString();
+        }
+        case "canonical":
+        case "image":
+            try {
+                return new URL(values[0], url).href;
+            } catch {
+                return values[0];
+            }
+        default:
+            return values[0];
+    }
+}
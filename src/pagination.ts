@@ -0,0 +1,170 @@
+/**
+ * Pagination Module
+ * Finds the next page of an article split across several URLs
+ * (<link rel="next">, pager markup, numbered page links) and stitches the
+ * converted pages into one Markdown document with page markers.
+ */
+
+import type { Element, HTMLDocument } from "deno-dom";
+import { normalizeLink } from "./links.ts";
+import { readEnv } from "./utils.ts";
+
+export interface ConvertedPage {
+    url: string;
+    markdown: string;
+}
+
+/** Upper bound for follow_pages, including the first page */
+export const MAX_PAGES = Number(readEnv("PAGINATION_MAX_PAGES") || 10);
+
+// Leading blocks of a later page that repeat one of this many blocks from page one are dropped
+const HEADER_BLOCKS = 8;
+
+const PAGER_SELECTOR = [
+    "nav", "[class*=pagination]", "[class*=pager]", "[class*=paging]", "[class*=page-nav]", "[class*=pagenav]",
+].join(", ");
+const NEXT_SELECTOR = [
+    ".pagination .next a", ".pagination a.next", ".pager .next a", ".pager-next a", "li.next a",
+    "a.next", "a.next-page", "a.pagination-next", "a.page-next",
+].join(", ");
+const NEXT_TEXT = /^(next( page)?|continue|more|weiter|suivant|siguiente|successivo|próxima|下一页|次へ|다음)\b|^[›»→>]+$|[›»→]$/i;
+// Text of pager link lists left in the converted body ("1 2 3 Next »")
+const PAGER_BLOCK = /^(?:\d+|next|previous|prev|page|of|first|last|[«»‹›←→|.…\s])+$/i;
+// Inline, referenced or footnote link
+const MARKDOWN_LINK = /\[[^\]]*\](?:\([^)]*\)|\[\d*\])|\[\^\d+\]/;
+
+/**
+ * Find the URL of the page that continues this one, if any
+ * @param visited - URLs already converted, never returned again
+ */
+export function findNextPage(doc: HTMLDocument, url: string, visited: Set<string> = new Set()): string | undefined {
+    const accept = (href: string | null | undefined) => {
+        const next = href ? normalizeLink(href, url) : undefined;
+        return next && next !== normalizeLink(url, url) && !visited.has(next) && isContinuation(url, next) ? next : undefined;
+    };
+
+    // Explicit rel="next" on <link> or <a>
+    for (const element of doc.querySelectorAll('link[rel~="next"], a[rel~="next"]')) {
+        const next = accept(element.getAttribute("href"));
+        if (next) return next;
+    }
+
+    // Common pager classes
+    for (const element of doc.querySelectorAll(NEXT_SELECTOR)) {
+        const next = accept(element.getAttribute("href"));
+        if (next) return next;
+    }
+
+    // "Next" text or the following page number inside pager markup
+    const current = pageNumber(url) ?? 1;
+    const anchors = [...doc.querySelectorAll(PAGER_SELECTOR)]
+        .flatMap((pager) => [...(pager as Element).querySelectorAll("a[href]")]) as Element[];
+    const labelled = anchors.find((anchor) => NEXT_TEXT.test(label(anchor)) && accept(anchor.getAttribute("href")));
+    if (labelled) return accept(labelled.getAttribute("href"));
+    const numbered = anchors.find((anchor) => label(anchor) === String(current + 1) && accept(anchor.getAttribute("href")));
+    return numbered ? accept(numbered.getAttribute("href")) : undefined;
+}
+
+/**
+ * Join converted pages: later pages lose header blocks repeated from page one
+ * and leftover pager links, reference and footnote numbers are kept unique, and
+ * each page starts with a `<!-- Page N: url -->` marker.
+ */
+export function stitchPages(pages: ConvertedPage[]): string {
+    if (pages.length === 0) return "";
+    const header = new Set(blocks(pages[0].markdown).slice(0, HEADER_BLOCKS).map(normalizeBlock));
+    let offset = 0;
+
+    return pages.map((page, index) => {
+        let parts = blocks(page.markdown);
+        if (index > 0) {
+            let start = 0;
+            while (start < parts.length && header.has(normalizeBlock(parts[start]))) start++;
+            parts = parts.slice(start).filter((part) => !isPagerBlock(part));
+        }
+
+        const { markdown, count } = renumberReferences(parts.join("\n\n"), offset);
+        offset += count;
+        return `<!-- Page ${index + 1}: ${page.url} -->\n\n${markdown}`.trimEnd();
+    }).join("\n\n");
+}
+
+/**
+ * Parse follow_pages: "true" for the default limit, or a page count
+ */
+export function parsePageLimit(value: string | null | undefined): number | undefined {
+    if (!value || value === "false") return undefined;
+    if (value === "true") return MAX_PAGES;
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 1) {
+        throw new Error(`Invalid 'follow_pages': ${value} (use true or a page count)`);
+    }
+    return Math.min(count, MAX_PAGES);
+}
+
+/**
+ * Whether `next` looks like another page of the same article rather than a different one
+ */
+function isContinuation(current: string, next: string): boolean {
+    const a = new URL(current);
+    const b = new URL(next);
+    if (a.origin !== b.origin) return false;
+    if (a.pathname === b.pathname) return a.search !== b.search;
+    return articlePath(a.pathname) === articlePath(b.pathname);
+}
+
+/**
+ * Path without a trailing page segment: /story/page/2, /story/2, /story-2.html, /story_p2
+ */
+function articlePath(pathname: string): string {
+    return pathname
+        .replace(/\.(s?html?|php|aspx?)$/i, "")
+        .replace(/(?:\/(?:page|p|seite|pagina)\/?\d+|\/\d{1,3}|[-_](?:page|p)?\d{1,3})\/?$/i, "")
+        .replace(/\/$/, "");
+}
+
+function pageNumber(url: string): number | undefined {
+    const { pathname, searchParams } = new URL(url);
+    const fromQuery = searchParams.get("page") ?? searchParams.get("p") ?? searchParams.get("pg");
+    const fromPath = /(?:\/(?:page|p|seite|pagina)\/?|[-_](?:page|p))(\d{1,3})\/?$/i.exec(pathname)?.[1];
+    const value = Number(fromQuery ?? fromPath);
+    return Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+function label(anchor: Element): string {
+    return (anchor.textContent || anchor.getAttribute("aria-label") || anchor.getAttribute("title") || "")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+function blocks(markdown: string): string[] {
+    return markdown.split(/\n{2,}/).filter((part) => part.trim());
+}
+
+function normalizeBlock(block: string): string {
+    return block.replace(/\[(\d+)\]/g, "[]").replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+function isPagerBlock(block: string): boolean {
+    // Only link lists; a paragraph reading "2019" or a "## 2" heading is content
+    if (!MARKDOWN_LINK.test(block)) return false;
+    // Compare the visible text of links, not their URLs
+    const text = block.replace(/!?\[([^\]]*)\](?:\([^)]*\)|\[\d*\])/g, "$1").replace(/[*_#>-]/g, " ").trim();
+    return text.length > 0 && text.length < 80 && PAGER_BLOCK.test(text) && /\d|next|prev/i.test(text);
+}
+
+/**
+ * Shift numbered reference links ([text][3] and "[3]: url") and numbered
+ * footnotes (text[^3] and "[^3]: url") by offset
+ */
+function renumberReferences(markdown: string, offset: number): { markdown: string; count: number } {
+    let count = 0;
+    const shifted = markdown
+        .replace(/^\[(\^?)(\d+)\]:/gm, (_match, caret: string, number: string) => {
+            count = Math.max(count, Number(number));
+            return `[${caret}${Number(number) + offset}]:`;
+        })
+        .replace(/\]\[(\d+)\]/g, (_match, number: string) => `][${Number(number) + offset}]`)
+        .replace(/\[\^(\d+)\](?!:)/g, (_match, number: string) => `[^${Number(number) + offset}]`);
+    return { markdown: shifted, count };
+}
@@ -0,0 +1,244 @@
+/**
+ * PDF to Markdown Module
+ * Rebuilds document structure from PDF text runs: headings from font size,
+ * paragraphs from line spacing, bullet and numbered lists, and a marker
+ * comment at the start of every page.
+ */
+
+import { getDocumentProxy } from "unpdf";
+
+export interface PdfDocument {
+    markdown: string;
+    title?: string;
+    author?: string;
+    pageCount: number;
+}
+
+interface PdfTextItem {
+    str: string;
+    transform: number[];
+    width: number;
+    height: number;
+    hasEOL?: boolean;
+}
+
+interface PdfLine {
+    text: string;
+    /** Font size (largest run on the line) */
+    size: number;
+    /** Baseline, in PDF units from the bottom of the page */
+    y: number;
+}
+
+const HEADING_RATIO = 1.2;          // font size relative to body text
+const MAX_HEADING_LENGTH = 150;
+const MAX_HEADING_LEVELS = 3;
+const PARAGRAPH_GAP_RATIO = 1.6;    // line distance, in font sizes, that starts a new paragraph
+
+const BULLET = /^[•▪◦●‣∙·\-–*]\s+/;
+const NUMBERED = /^(\d{1,3})[.)]\s+/;
+const PAGE_NUMBER = /^(page\s+)?\d{1,4}(\s+(of|\/)\s+\d{1,4})?$/i;
+
+/**
+ * Check whether a Content-Type header denotes a PDF
+ */
+export function isPdfContentType(contentType: string): boolean {
+    return /application\/(x-)?pdf/i.test(contentType);
+}
+
+/**
+ * Convert a PDF to Markdown and extract its metadata
+ */
+export async function pdfToMarkdown(data: Uint8Array): Promise<PdfDocument> {
+    const pdf = await getDocumentProxy(data);
+    try {
+        const { info } = await pdf.getMetadata().catch(() => ({ info: undefined }));
+        const meta = (info ?? {}) as Record<string, unknown>;
+
+        const pages: PdfLine[][] = [];
+        for (let number = 1; number <= pdf.numPages; number++) {
+            const page = await pdf.getPage(number);
+            const content = await page.getTextContent();
+            pages.push(stripPageNumbers(groupLines(content.items)));
+            page.cleanup();
+        }
+
+        const allLines = pages.flat();
+        const bodySize = dominantSize(allLines);
+        const levels = headingLevels(allLines, bodySize);
+
+        const body = pages
+            .map((lines, index) => `<!-- Page ${index + 1} -->\n\n${renderLines(lines, bodySize, levels)}`.trimEnd())
+            .join("\n\n");
+
+        const firstHeading = /^#{1,6} (.+)$/m.exec(body)?.[1];
+        const title = metaString(meta.Title) || firstHeading;
+        const author = metaString(meta.Author);
+
+        let markdown = "";
+        if (title && title !== firstHeading) {
+            markdown += `# ${title}\n\n`;
+        }
+        if (author) {
+            markdown += `*By ${author}*\n\n`;
+        }
+        markdown += body;
+
+        return { markdown, title, author, pageCount: pdf.numPages };
+    } finally {
+        await pdf.loadingTask.destroy();
+    }
+}
+
+function isTextItem(item: object): item is PdfTextItem {
+    return "str" in item && "transform" in item;
+}
+
+function metaString(value: unknown): string | undefined {
+    return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Join text runs into lines using their baselines (marked-content entries are skipped)
+ */
+function groupLines(items: object[]): PdfLine[] {
+    const lines: PdfLine[] = [];
+    let current: PdfLine | undefined;
+    let lastEnd = 0;
+    let breakNext = false;
+
+    for (const item of items) {
+        if (!isTextItem(item)) continue;
+        const size = Math.hypot(item.transform[2], item.transform[3]) || item.height;
+        const x = item.transform[4];
+        const y = item.transform[5];
+
+        if (!current || breakNext || Math.abs(current.y - y) > Math.max(current.size, size) * 0.5) {
+            current = { text: "", size: 0, y };
+            lines.push(current);
+        } else if (x - lastEnd > size * 0.15 && !current.text.endsWith(" ") && !item.str.startsWith(" ")) {
+            current.text += " ";
+        }
+
+        if (item.str.trim()) {
+            current.size = Math.max(current.size, size);
+        }
+        current.text += item.str;
+        lastEnd = x + item.width;
+        breakNext = item.hasEOL === true;
+    }
+
+    return lines
+        .map((line) => ({ ...line, text: line.text.replace(/\s+/g, " ").trim() }))
+        .filter((line) => line.text);
+}
+
+/**
+ * Drop running page numbers from the top and bottom of a page
+ */
+function stripPageNumbers(lines: PdfLine[]): PdfLine[] {
+    const result = [...lines];
+    if (result.length > 0 && PAGE_NUMBER.test(result[result.length - 1].text)) result.pop();
+    if (result.length > 0 && PAGE_NUMBER.test(result[0].text)) result.shift();
+    return result;
+}
+
+/**
+ * Most common font size, weighted by the amount of text set in it
+ */
+function dominantSize(lines: PdfLine[]): number {
+    const weights = new Map<number, number>();
+    for (const line of lines) {
+        const size = Math.round(line.size * 2) / 2;
+        weights.set(size, (weights.get(size) ?? 0) + line.text.length);
+    }
+    let best = 0;
+    let bestWeight = -1;
+    for (const [size, weight] of weights) {
+        if (weight > bestWeight) {
+            best = size;
+            bestWeight = weight;
+        }
+    }
+    return best || 12;
+}
+
+function isHeading(line: PdfLine, bodySize: number): boolean {
+    return line.size >= bodySize * HEADING_RATIO && line.text.length <= MAX_HEADING_LENGTH;
+}
+
+/**
+ * Map the largest heading font sizes to heading levels 1..MAX_HEADING_LEVELS
+ */
+function headingLevels(lines: PdfLine[], bodySize: number): Map<number, number> {
+    const sizes = [...new Set(
+        lines.filter((line) => isHeading(line, bodySize)).map((line) => Math.round(line.size)),
+    )].sort((a, b) => b - a);
+
+    return new Map(sizes.map((size, index) => [size, Math.min(index + 1, MAX_HEADING_LEVELS)]));
+}
+
+/**
+ * Append a line to a block, undoing end-of-line hyphenation
+ */
+function joinLine(block: string, text: string): string {
+    if (/[a-z]-$/i.test(block) && /^[a-z]/.test(text)) {
+        return block.slice(0, -1) + text;
+    }
+    return `${block} ${text}`;
+}
+
+/**
+ * Render one page's lines as Markdown blocks
+ */
+function renderLines(lines: PdfLine[], bodySize: number, levels: Map<number, number>): string {
+    const blocks: string[] = [];
+    let block = "";
+    let blockIsHeading = false;
+    let previous: PdfLine | undefined;
+
+    const flush = () => {
+        if (block) blocks.push(block);
+        block = "";
+        blockIsHeading = false;
+    };
+
+    for (const line of lines) {
+        const gap = previous ? previous.y - line.y : 0;
+        const farApart = !previous || gap < 0 || gap > Math.max(line.size, bodySize) * PARAGRAPH_GAP_RATIO;
+
+        if (isHeading(line, bodySize)) {
+            // Headings set over several lines arrive as consecutive lines of the same size
+            if (blockIsHeading && !farApart && previous && Math.abs(previous.size - line.size) < 0.5) {
+                block = joinLine(block, line.text);
+            } else {
+                flush();
+                const level = levels.get(Math.round(line.size)) ?? MAX_HEADING_LEVELS;
+                block = `${"#".repeat(level)} ${line.text}`;
+                blockIsHeading = true;
+            }
+        } else if (BULLET.test(line.text)) {
+            flush();
+            block = `- ${line.text.replace(BULLET, "")}`;
+        } else if (NUMBERED.test(line.text)) {
+            flush();
+            block = `${NUMBERED.exec(line.text)![1]}. ${line.text.replace(NUMBERED, "")}`;
+        } else if (block && !blockIsHeading && !farApart) {
+            block = joinLine(block, line.text);
+        } else {
+            flush();
+            block = line.text;
+        }
+        previous = line;
+    }
+    flush();
+
+    // Keep list items of the same list together
+    return blocks
+        .map((text, index) => {
+            const isItem = (value?: string) => value !== undefined && /^(- |\d+\. )/.test(value);
+            return index > 0 && isItem(text) && isItem(blocks[index - 1]) ? `\n${text}` : `\n\n${text}`;
+        })
+        .join("")
+        .trim();
+}
@@ -0,0 +1,263 @@
+/**
+ * Chrome DevTools Protocol Renderer
+ * Loads a page in a headless Chrome/Chromium reachable at RENDER_CDP_URL, lets
+ * its JavaScript run, and returns the rendered DOM as HTML.
+ *
+ * RENDER_CDP_URL accepts either the HTTP debugging endpoint
+ * (e.g. http://localhost:9222, resolved through /json/version) or a browser
+ * WebSocket URL (ws://…/devtools/browser/…).
+ */
+
+import { readEnv } from "../utils.ts";
+
+export interface RenderOptions {
+    /** Extra request headers (e.g. cookies from domain rules) */
+    headers?: Record<string, string>;
+    /** Wait until this CSS selector matches instead of waiting for network idle */
+    waitForSelector?: string;
+    /** Give up waiting after this many milliseconds and snapshot whatever rendered */
+    maxWait?: number;
+    signal?: AbortSignal;
+}
+
+export interface RenderResult {
+    html: string;
+    /** URL after client-side or HTTP redirects */
+    finalUrl: string;
+    status?: number;
+}
+
+type CdpParams = Record<string, unknown>;
+
+interface CdpEvent {
+    method: string;
+    params: CdpParams;
+    sessionId?: string;
+}
+
+/** A command response or an event, as received on the socket */
+interface CdpMessage extends Partial<CdpEvent> {
+    id?: number;
+    result?: CdpParams;
+    error?: { message: string; code: number };
+}
+
+// Network counts as idle with at most this many requests open for NETWORK_IDLE_MS
+// (long polls and analytics beacons often never finish)
+const NETWORK_IDLE_REQUESTS = 2;
+const NETWORK_IDLE_MS = 500;
+const SELECTOR_POLL_MS = 250;
+const DEFAULT_MAX_WAIT_MS = 20000;
+
+export function getCdpEndpoint(): string | undefined {
+    return readEnv("RENDER_CDP_URL");
+}
+
+/**
+ * Minimal CDP client over one browser-level WebSocket using flat sessions
+ */
+class CdpConnection {
+    private nextId = 1;
+    private pending = new Map<number, { resolve: (value: CdpParams) => void; reject: (error: Error) => void }>();
+    private listeners = new Set<(event: CdpEvent) => void>();
+
+    private constructor(private socket: WebSocket) {
+        socket.onmessage = (message) => this.dispatch(JSON.parse(String(message.data)));
+        socket.onclose = () => this.failPending(new Error("DevTools connection closed"));
+    }
+
+    static connect(url: string, signal?: AbortSignal): Promise<CdpConnection> {
+        return new Promise((resolve, reject) => {
+            const socket = new WebSocket(url);
+            const onAbort = () => {
+                socket.close();
+                reject(signal?.reason ?? new Error("Aborted"));
+            };
+            signal?.addEventListener("abort", onAbort, { once: true });
+            socket.onopen = () => {
+                signal?.removeEventListener("abort", onAbort);
+                resolve(new CdpConnection(socket));
+            };
+            socket.onerror = () => {
+                signal?.removeEventListener("abort", onAbort);
+                reject(new Error(`Cannot connect to DevTools at ${url}`));
+            };
+        });
+    }
+
+    send<T = CdpParams>(method: string, params?: CdpParams, sessionId?: string): Promise<T> {
+        if (this.socket.readyState !== WebSocket.OPEN) {
+            return Promise.reject(new Error("DevTools connection closed"));
+        }
+        const id = this.nextId++;
+        return new Promise<T>((resolve, reject) => {
+            this.pending.set(id, { resolve: (value) => resolve(value as T), reject });
+            this.socket.send(JSON.stringify({ id, method, params: params ?? {}, sessionId }));
+        });
+    }
+
+    onEvent(listener: (event: CdpEvent) => void): void {
+        this.listeners.add(listener);
+    }
+
+    /**
+     * Reject the commands waiting for a response but keep the socket open,
+     * so the caller can still clean up in the browser
+     */
+    abortPending(reason: unknown): void {
+        this.failPending(reason instanceof Error ? reason : new Error("Aborted"));
+    }
+
+    close(): void {
+        this.failPending(new Error("DevTools connection closed"));
+        this.socket.close();
+    }
+
+    private dispatch(message: CdpMessage): void {
+        if (typeof message.id === "number") {
+            const call = this.pending.get(message.id);
+            if (!call) return;
+            this.pending.delete(message.id);
+            if (message.error) {
+                call.reject(new Error(`${message.error.message} (${message.error.code})`));
+            } else {
+                call.resolve(message.result ?? {});
+            }
+            return;
+        }
+        if (!message.method) return;
+        for (const listener of this.listeners) {
+            listener({ method: message.method, params: message.params ?? {}, sessionId: message.sessionId });
+        }
+    }
+
+    private failPending(error: Error): void {
+        for (const call of this.pending.values()) {
+            call.reject(error);
+        }
+        this.pending.clear();
+    }
+}
+
+/**
+ * Resolve the browser WebSocket URL from RENDER_CDP_URL
+ */
+async function resolveBrowserUrl(endpoint: string, signal?: AbortSignal): Promise<string> {
+    if (/^wss?:/i.test(endpoint)) return endpoint;
+
+    const response = await fetch(new URL("/json/version", endpoint), { signal });
+    if (!response.ok) {
+        throw new Error(`DevTools endpoint returned HTTP ${response.status}`);
+    }
+    const info = await response.json() as { webSocketDebuggerUrl?: string };
+    if (!info.webSocketDebuggerUrl) {
+        throw new Error("DevTools endpoint did not report a webSocketDebuggerUrl");
+    }
+    return info.webSocketDebuggerUrl;
+}
+
+/**
+ * Render a page in the configured browser. Each render gets its own browser
+ * context so cookies and storage never leak between requests.
+ */
+export async function renderWithCdp(url: string, options: RenderOptions = {}): Promise<RenderResult> {
+    const endpoint = getCdpEndpoint();
+    if (!endpoint) {
+        throw new Error("RENDER_CDP_URL is not configured");
+    }
+
+    const { signal } = options;
+    const browserUrl = await resolveBrowserUrl(endpoint, signal);
+    const cdp = await CdpConnection.connect(browserUrl, signal);
+    // Stop waiting on abort but keep the socket: the context is disposed in finally
+    const onAbort = () => cdp.abortPending(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    let browserContextId: string | undefined;
+    try {
+        // disposeOnDetach: Chrome drops the context with the connection, even one
+        // whose id never arrived because the render was aborted meanwhile
+        ({ browserContextId } = await cdp.send<{ browserContextId: string }>("Target.createBrowserContext", {
+            disposeOnDetach: true,
+        }));
+        const { targetId } = await cdp.send<{ targetId: string }>("Target.createTarget", { url: "about:blank", browserContextId });
+        const { sessionId } = await cdp.send<{ sessionId: string }>("Target.attachToTarget", { targetId, flatten: true });
+        const page = <T = CdpParams>(method: string, params?: CdpParams) => cdp.send<T>(method, params, sessionId);
+
+        // Track in-flight requests for network idle and the document's status
+        const inflight = new Set<string>();
+        let lastActivity = Date.now();
+        let loaded = false;
+        let status: number | undefined;
+        cdp.onEvent((event) => {
+            if (event.sessionId !== sessionId) return;
+            switch (event.method) {
+                case "Network.requestWillBeSent":
+                    inflight.add(String(event.params.requestId));
+                    lastActivity = Date.now();
+                    break;
+                case "Network.loadingFinished":
+                case "Network.loadingFailed":
+                    inflight.delete(String(event.params.requestId));
+                    lastActivity = Date.now();
+                    break;
+                case "Network.responseReceived":
+                    if (event.params.type === "Document" && status === undefined) {
+                        status = (event.params.response as { status: number }).status;
+                    }
+                    break;
+                case "Page.loadEventFired":
+                    loaded = true;
+                    break;
+            }
+        });
+
+        await page("Page.enable");
+        await page("Network.enable");
+        if (options.headers) {
+            await page("Network.setExtraHTTPHeaders", { headers: options.headers });
+        }
+
+        const navigation = await page<{ errorText?: string }>("Page.navigate", { url });
+        if (navigation.errorText) {
+            throw new Error(`Navigation failed: ${navigation.errorText}`);
+        }
+
+        const evaluate = async (expression: string) => {
+            const { result, exceptionDetails } = await page<{ result: { value?: unknown }; exceptionDetails?: { text: string } }>(
+                "Runtime.evaluate",
+                { expression, returnByValue: true },
+            );
+            if (exceptionDetails) throw new Error(`Page script error: ${exceptionDetails.text}`);
+            return result.value;
+        };
+
+        const until = Date.now() + (options.maxWait ?? DEFAULT_MAX_WAIT_MS);
+        const selector = options.waitForSelector;
+        while (Date.now() < until) {
+            if (signal?.aborted) throw signal.reason ?? new Error("Aborted");
+            if (selector) {
+                if (await evaluate(`!!document.querySelector(${JSON.stringify(selector)})`)) break;
+            } else if (loaded && inflight.size <= NETWORK_IDLE_REQUESTS && Date.now() - lastActivity >= NETWORK_IDLE_MS) {
+                break;
+            }
+            await new Promise((resolve) => setTimeout(resolve, SELECTOR_POLL_MS));
+        }
+        if (selector && Date.now() >= until) {
+            console.warn(`[Render] Selector "${selector}" not found before timeout, using current DOM`);
+        }
+
+        const html = await evaluate("document.documentElement.outerHTML") as string;
+        const finalUrl = await evaluate("location.href") as string;
+        return { html: `<!DOCTYPE html>\n${html}`, finalUrl, status };
+    } finally {
+        signal?.removeEventListener("abort", onAbort);
+        // Dispose before closing the socket; disposeOnDetach covers a context created during an abort
+        if (browserContextId) {
+            await cdp.send("Target.disposeBrowserContext", { browserContextId }).catch((error) => {
+                console.warn(`[Render] Could not dispose browser context: ${error instanceof Error ? error.message : error}`);
+            });
+        }
+        cdp.close();
+    }
+}
@@ -0,0 +1,247 @@
+/**
+ * Per-Domain Rules Module
+ * Loads host-specific routing rules from a JSON or YAML file (RULES_FILE,
+ * default ./rules.json) and reloads them when the file changes.
+ *
+ * Example (rules.yaml):
+ *   rules:
+ *     - match: nytimes.com          # host and all subdomains
+ *       plan: [archive]             # try these first, in order
+ *       skip: [direct]              # never use these
+ *     - match: "*.example.org"      # subdomains only
+ *       headers: { Referer: "https://www.google.com/" }
+ *       cookies: { consent: "yes" }
+ *       minContentLength: 2000
+ *       renderWaitFor: "#app article"   # render strategy: wait for this selector
+ *       extractor: defuddle         # main-content extractor (readability/defuddle/body/auto)
+ *       includeSelector: ".post-body"   # convert only these elements
+ *       excludeSelector: ".comments, .changelog"   # strip these before extraction
+ *       detection:                  # tune block/paywall detection
+ *         threshold: 1.5
+ *         disable: [paywall.members-only]
+ *         weights: { block.captcha: 0 }
+ */
+
+import { parse as parseYaml } from "yaml";
+import { readEnv } from "./utils.ts";
+import { EXTRACTORS, type Extractor } from "./extractors.ts";
+
+export interface DomainRule {
+    /** Host pattern(s): "example.com" also matches subdomains, "*.example.com" only subdomains */
+    match: string | string[];
+    /** Optional name used in logs and attempt reports (defaults to the first pattern) */
+    name?: string;
+    /** Ordered strategies tried before the normal cascade */
+    plan?: string[];
+    /** When true, stop after the plan instead of continuing with the normal cascade */
+    exclusive?: boolean;
+    /** Strategies never used for this host */
+    skip?: string[];
+    /** Extra request headers for strategies that fetch the origin directly */
+    headers?: Record<string, string>;
+    /** Cookies sent along with those requests */
+    cookies?: Record<string, string>;
+    /** Reject fetched content shorter than this many characters */
+    minContentLength?: number;
+    /** CSS selector the render strategy waits for instead of network idle */
+    renderWaitFor?: string;
+    /** Main-content extractor used for this host unless the request names one */
+    extractor?: Extractor;
+    /** CSS selector scoping conversion to matching elements unless the request gives one */
+    includeSelector?: string;
+    /** CSS selector for elements stripped before extraction unless the request gives one */
+    excludeSelector?: string;
+    /** Block/paywall detection tuning for this host */
+    detection?: DetectionOverride;
+}
+
+export interface DetectionOverride {
+    /** Score at which a page counts as blocked or paywalled (default 1) */
+    threshold?: number;
+    /** Detection rule ids ignored on this host */
+    disable?: string[];
+    /** Replacement weights by rule id (0 disables a rule) */
+    weights?: Record<string, number>;
+}
+
+export interface RulesFile {
+    rules: DomainRule[];
+}
+
+const DEFAULT_RULES_FILE = "rules.json";
+
+let rules: DomainRule[] = [];
+let watcher: Deno.FsWatcher | undefined;
+
+/**
+ * Get the name a rule is reported under
+ */
+export function ruleName(rule: DomainRule): string {
+    return rule.name || (Array.isArray(rule.match) ? rule.match[0] : rule.match);
+}
+
+/**
+ * Check whether a host matches a rule pattern
+ */
+export function matchesHost(pattern: string, host: string): boolean {
+    const p = pattern.toLowerCase().trim();
+    const h = host.toLowerCase();
+
+    if (p === "*") return true;
+    if (p.startsWith("*.")) {
+        return h.endsWith(p.slice(1));
+    }
+    return h === p || h.endsWith(`.${p}`);
+}
+
+/**
+ * Find the first rule matching the URL's host
+ */
+export function findRule(url: string): DomainRule | undefined {
+    let host: string;
+    try {
+        host = new URL(url).hostname;
+    } catch {
+        return undefined;
+    }
+
+    return rules.find((rule) => {
+        const patterns = Array.isArray(rule.match) ? rule.match : [rule.match];
+        return patterns.some((pattern) => matchesHost(pattern, host));
+    });
+}
+
+/**
+ * Build the request headers a rule adds (custom headers plus Cookie)
+ */
+export function ruleHeaders(rule: DomainRule): Record<string, string> | undefined {
+    const headers: Record<string, string> = { ...rule.headers };
+    const cookies = Object.entries(rule.cookies ?? {});
+    if (cookies.length > 0) {
+        headers["Cookie"] = cookies.map(([name, value]) => `${name}=${value}`).join("; ");
+    }
+    return Object.keys(headers).length > 0 ? headers : undefined;
+}
+
+export function getRules(): DomainRule[] {
+    return rules;
+}
+
+/**
+ * Replace the active rule set (validates it first)
+ */
+export function setRules(next: DomainRule[]): void {
+    rules = next.filter((rule, index) => {
+        const error = validateRule(rule);
+        if (error) {
+            console.warn(`[Rules] Ignoring rule #${index}: ${error}`);
+            return false;
+        }
+        return true;
+    });
+}
+
+function validateRule(rule: DomainRule): string | undefined {
+    if (!rule || typeof rule !== "object") return "not an object";
+    const patterns = Array.isArray(rule.match) ? rule.match : [rule.match];
+    if (patterns.length === 0 || patterns.some((p) => typeof p !== "string" || !p)) {
+        return "missing or invalid 'match'";
+    }
+    for (const field of ["plan", "skip"] as const) {
+        const value = rule[field];
+        if (value !== undefined && (!Array.isArray(value) || value.some((s) => typeof s !== "string"))) {
+            return `'${field}' must be a list of strategy names`;
+        }
+    }
+    if (rule.minContentLength !== undefined && typeof rule.minContentLength !== "number") {
+        return "'minContentLength' must be a number";
+    }
+    if (rule.renderWaitFor !== undefined && typeof rule.renderWaitFor !== "string") {
+        return "'renderWaitFor' must be a CSS selector";
+    }
+    if (rule.extractor !== undefined && !EXTRACTORS.includes(rule.extractor)) {
+        return `'extractor' must be one of ${EXTRACTORS.join(", ")}`;
+    }
+    for (const field of ["includeSelector", "excludeSelector"] as const) {
+        if (rule[field] !== undefined && typeof rule[field] !== "string") {
+            return `'${field}' must be a CSS selector`;
+        }
+    }
+    const detection = rule.detection;
+    if (detection !== undefined) {
+        if (typeof detection !== "object" || detection === null) return "'detection' must be an object";
+        if (detection.threshold !== undefined && typeof detection.threshold !== "number") {
+            return "'detection.threshold' must be a number";
+        }
+        if (detection.disable !== undefined && !Array.isArray(detection.disable)) {
+            return "'detection.disable' must be a list of rule ids";
+        }
+        if (detection.weights !== undefined && Object.values(detection.weights).some((w) => typeof w !== "number")) {
+            return "'detection.weights' must map rule ids to numbers";
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Parse rules from file contents; YAML for .yaml/.yml, JSON otherwise
+ */
+export function parseRules(text: string, path: string): DomainRule[] {
+    const data = /\.ya?ml$/i.test(path) ? parseYaml(text) : JSON.parse(text);
+    const list = Array.isArray(data) ? data : (data as RulesFile)?.rules;
+    if (!Array.isArray(list)) {
+        throw new Error("Rules file must be a list or an object with a 'rules' list");
+    }
+    return list;
+}
+
+/**
+ * Load rules from disk. A missing default file is not an error.
+ * On a parse error the previously loaded rules stay active.
+ */
+export async function loadRules(path = readEnv("RULES_FILE") || DEFAULT_RULES_FILE): Promise<void> {
+    try {
+        const text = await Deno.readTextFile(path);
+        setRules(parseRules(text, path));
+        console.log(`[Rules] Loaded ${rules.length} rule(s) from ${path}`);
+    } catch (error) {
+        if (error instanceof Deno.errors.NotFound && !readEnv("RULES_FILE")) return;
+        if (error instanceof Deno.errors.NotCapable || error instanceof Deno.errors.PermissionDenied) return;
+        console.error(`[Rules] Failed to load ${path}:`, error instanceof Error ? error.message : error);
+    }
+}
+
+/**
+ * Load rules and reload them whenever the file changes.
+ * The file's directory is watched, so a file created after startup (or replaced by an editor) is picked up too.
+ */
+export async function initRules(path = readEnv("RULES_FILE") || DEFAULT_RULES_FILE): Promise<void> {
+    await loadRules(path);
+    if (watcher) return;
+
+    const slash = Math.max(path.lastIndexOf("/"), path.lastIndexOf("\\"));
+    const directory = slash < 0 ? "." : path.slice(0, slash) || "/";
+    const name = path.slice(slash + 1);
+    try {
+        watcher = Deno.watchFs(directory, { recursive: false });
+    } catch {
+        // Directory missing or watching unsupported (e.g. Deno Deploy)
+        return;
+    }
+
+    (async () => {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        for await (const event of watcher!) {
+            if (event.kind !== "modify" && event.kind !== "create" && event.kind !== "rename") continue;
+            if (!event.paths.some((changed) => changed.split(/[\\/]/).pop() === name)) continue;
+            // Editors often emit several events per save
+            clearTimeout(timer);
+            timer = setTimeout(() => {
+                console.log(`[Rules] ${path} changed, reloading`);
+                loadRules(path);
+            }, 200);
+        }
+    })().catch((error) => {
+        console.warn("[Rules] Watcher stopped:", error);
+    });
+}
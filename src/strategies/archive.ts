@@ -4,6 +4,8 @@
  */
 
 import type { FetchResult } from "./googlebot.ts";
+import type { StrategyContext, StrategyDescriptor } from "./registry.ts";
+import { FALLBACK_HTML_VALIDATORS } from "./validators.ts";
 
 const ARCHIVE_API = "https://archive.org/wayback/available";
 const ARCHIVE_WEB = "https://web.archive.org/web";
@@ -18,17 +20,18 @@ interface ArchiveResponse {
     };
 }
 
-export async function fetchFromArchive(url: string): Promise<FetchResult> {
+export async function fetchFromArchive(url: string, context: StrategyContext = {}): Promise<FetchResult> {
     try {
         // First, check if URL is available in archive
         const checkUrl = `${ARCHIVE_API}?url=${encodeURIComponent(url)}`;
-        const checkResponse = await fetch(checkUrl);
+        const checkResponse = await fetch(checkUrl, { signal: context.signal });
 
         if (!checkResponse.ok) {
             return {
                 success: false,
                 error: `Archive API error: ${checkResponse.status}`,
                 strategy: "archive",
+                status: checkResponse.status,
             };
         }
 
@@ -43,6 +46,7 @@ export async function fetchFromArchive(url: string): Promise<FetchResult> {
                     "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36",
                     "Accept": "text/html,application/xhtml+xml",
                 },
+                signal: context.signal,
             });
 
             if (!directResponse.ok) {
@@ -50,6 +54,7 @@ export async function fetchFromArchive(url: string): Promise<FetchResult> {
                     success: false,
                     error: "No archive snapshot available",
                     strategy: "archive",
+                    status: directResponse.status,
                 };
             }
 
@@ -58,6 +63,7 @@ export async function fetchFromArchive(url: string): Promise<FetchResult> {
                 success: true,
                 html,
                 strategy: "archive",
+                status: directResponse.status,
             };
         }
 
@@ -67,6 +73,7 @@ export async function fetchFromArchive(url: string): Promise<FetchResult> {
                 "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36",
                 "Accept": "text/html,application/xhtml+xml",
             },
+            signal: context.signal,
         });
 
         if (!response.ok) {
@@ -74,6 +81,7 @@ export async function fetchFromArchive(url: string): Promise<FetchResult> {
                 success: false,
                 error: `Failed to fetch archive: ${response.status}`,
                 strategy: "archive",
+                status: response.status,
             };
         }
 
@@ -82,6 +90,7 @@ export async function fetchFromArchive(url: string): Promise<FetchResult> {
             success: true,
             html,
             strategy: "archive",
+            status: response.status,
         };
     } catch (error) {
         return {
@@ -91,3 +100,13 @@ export async function fetchFromArchive(url: string): Promise<FetchResult> {
         };
     }
 }
+
+export const descriptor: StrategyDescriptor = {
+    name: "archive",
+    label: "Archive.org",
+    tier: "fallback",
+    output: "html",
+    timeout: 25000,
+    validators: FALLBACK_HTML_VALIDATORS,
+    fetch: fetchFromArchive,
+};
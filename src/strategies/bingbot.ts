@@ -1,4 +1,7 @@
 import { decodeResponse } from "../utils.ts";
+import type { StrategyContext, StrategyDescriptor } from "./registry.ts";
+import { PARALLEL_HTML_VALIDATORS } from "./validators.ts";
+import { signalHeaders } from "../detection/mod.ts";
 
 /**
  * Bingbot Strategy
@@ -10,6 +13,9 @@ export interface FetchResult {
     html?: string;
     error?: string;
     strategy: string;
+    status?: number;
+    finalUrl?: string;
+    headers?: Record<string, string>;
 }
 
 const BINGBOT_USER_AGENTS = [
@@ -32,7 +38,7 @@ function getRandomItem<T>(arr: T[]): T {
     return arr[Math.floor(Math.random() * arr.length)];
 }
 
-export async function fetchWithBingbot(url: string): Promise<FetchResult> {
+export async function fetchWithBingbot(url: string, context: StrategyContext = {}): Promise<FetchResult> {
     const userAgent = getRandomItem(BINGBOT_USER_AGENTS);
     const forwardedIP = getRandomItem(BING_IPS);
 
@@ -46,7 +52,9 @@ export async function fetchWithBingbot(url: string): Promise<FetchResult> {
                 "Accept-Language": "en-US,en;q=0.5",
                 "Accept-Encoding": "gzip, deflate",
                 "Connection": "keep-alive",
+                ...context.headers,
             },
+            signal: context.signal,
         });
 
         if (!response.ok) {
@@ -54,6 +62,7 @@ export async function fetchWithBingbot(url: string): Promise<FetchResult> {
                 success: false,
                 error: `HTTP ${response.status}: ${response.statusText}`,
                 strategy: "bingbot",
+                status: response.status,
             };
         }
 
@@ -63,6 +72,7 @@ export async function fetchWithBingbot(url: string): Promise<FetchResult> {
                 success: false,
                 error: `Invalid content type: ${contentType}`,
                 strategy: "bingbot",
+                status: response.status,
             };
         }
 
@@ -71,6 +81,9 @@ export async function fetchWithBingbot(url: string): Promise<FetchResult> {
             success: true,
             html,
             strategy: "bingbot",
+            status: response.status,
+            finalUrl: response.url,
+            headers: signalHeaders(response.headers),
         };
     } catch (error) {
         return {
@@ -80,3 +93,13 @@ export async function fetchWithBingbot(url: string): Promise<FetchResult> {
         };
     }
 }
+
+export const descriptor: StrategyDescriptor = {
+    name: "bingbot",
+    label: "Bingbot",
+    tier: "parallel",
+    output: "html",
+    timeout: 15000,
+    validators: PARALLEL_HTML_VALIDATORS,
+    fetch: fetchWithBingbot,
+};
@@ -0,0 +1,143 @@
+/**
+ * Direct Fetch Strategy
+ * Plain browser-like request without any bypass tricks.
+ * Also the entry point for PDFs, which are passed on undecoded.
+ */
+
+import type { StrategyContext, StrategyDescriptor, StrategyResult } from "./registry.ts";
+import { describeVerdict, detect, signalHeaders } from "../detection/mod.ts";
+import { PARALLEL_HTML_VALIDATORS } from "./validators.ts";
+import { BodyTooLargeError, decodeResponse, readEnv, readLimited } from "../utils.ts";
+import { isPdfContentType } from "../pdf-to-markdown.ts";
+
+const PDF_MAX_BYTES = Number(readEnv("PDF_MAX_BYTES") || 25 * 1024 * 1024);
+
+/**
+ * Read a PDF response body, refusing documents over PDF_MAX_BYTES
+ */
+async function readPdf(response: Response): Promise<StrategyResult> {
+    const declared = Number(response.headers.get("Content-Length") || 0);
+    if (declared > PDF_MAX_BYTES) {
+        await response.body?.cancel();
+        return {
+            success: false,
+            error: `PDF too large (${declared} bytes, limit ${PDF_MAX_BYTES})`,
+            strategy: "direct",
+            status: response.status,
+        };
+    }
+
+    let pdf: Uint8Array;
+    try {
+        pdf = await readLimited(response.body, PDF_MAX_BYTES);
+    } catch (error) {
+        if (!(error instanceof BodyTooLargeError)) throw error;
+        return {
+            success: false,
+            error: `PDF too large (over ${PDF_MAX_BYTES} bytes)`,
+            strategy: "direct",
+            status: response.status,
+        };
+    }
+
+    return {
+        success: true,
+        pdf,
+        strategy: "direct",
+        status: response.status,
+        finalUrl: response.url,
+    };
+}
+
+/**
+ * Fetch with direct request (no bypass)
+ */
+export async function fetchDirect(url: string, context: StrategyContext = {}): Promise<StrategyResult> {
+    try {
+        const response = await fetch(url, {
+            headers: {
+                "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+                "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,application/pdf;q=0.8,*/*;q=0.7",
+                "Accept-Language": "en-US,en;q=0.5",
+                ...context.headers,
+            },
+            signal: context.signal,
+        });
+
+        if (!response.ok) {
+            return {
+                success: false,
+                error: `HTTP ${response.status}`,
+                strategy: "direct",
+                status: response.status,
+            };
+        }
+
+        const contentType = response.headers.get("Content-Type") || "";
+        if (isPdfContentType(contentType)) {
+            return await readPdf(response);
+        }
+        if (!contentType.includes("text/html")) {
+            return {
+                success: false,
+                error: `Invalid content type: ${contentType}`,
+                strategy: "direct",
+                status: response.status,
+            };
+        }
+
+        const html = await decodeResponse(response);
+        const headers = signalHeaders(response.headers);
+
+        // Check for blocks and paywalls
+        const verdict = detect(html, { url, status: response.status, headers });
+        if (verdict.blocked) {
+            return {
+                success: false,
+                error: `Blocked by Cloudflare or anti-bot (${describeVerdict(verdict, "blocked")})`,
+                strategy: "direct",
+                status: response.status,
+                headers,
+            };
+        }
+
+        if (verdict.paywalled) {
+            return {
+                success: false,
+                error: `Paywall detected (${describeVerdict(verdict, "paywall")})`,
+                strategy: "direct",
+                status: response.status,
+                headers,
+            };
+        }
+
+        return {
+            success: true,
+            html,
+            strategy: "direct",
+            status: response.status,
+            finalUrl: response.url,
+            headers,
+            // Reused by the validators instead of scoring the page again
+            verdict,
+        };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+            strategy: "direct",
+            // @ts-ignore
+            fallback: true
+        };
+    }
+}
+
+export const descriptor: StrategyDescriptor = {
+    name: "direct",
+    label: "Direct",
+    tier: "parallel",
+    output: "html",
+    timeout: 15000,
+    validators: PARALLEL_HTML_VALIDATORS,
+    fetch: fetchDirect,
+};
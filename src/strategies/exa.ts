@@ -4,6 +4,9 @@
  * No API key required!
  */
 
+import type { StrategyContext, StrategyDescriptor } from "./registry.ts";
+import { MARKDOWN_VALIDATORS } from "./validators.ts";
+
 const EXA_MCP_ENDPOINT = "https://mcp.exa.ai/mcp?tools=crawling_exa";
 
 export interface ExaResult {
@@ -21,7 +24,7 @@ let mcpSessionId: string | null = null;
 /**
  * Initialize MCP session
  */
-async function initMcpSession(): Promise<boolean> {
+async function initMcpSession(signal?: AbortSignal): Promise<boolean> {
     try {
         const response = await fetch(EXA_MCP_ENDPOINT, {
             method: "POST",
@@ -39,6 +42,7 @@ async function initMcpSession(): Promise<boolean> {
                     clientInfo: { name: "url-to-markdown", version: "2.2.0" },
                 },
             }),
+            signal,
         });
 
         mcpSessionId = response.headers.get("mcp-session-id");
@@ -62,7 +66,8 @@ async function initMcpSession(): Promise<boolean> {
  */
 async function callMcpTool(
     toolName: string,
-    args: Record<string, unknown>
+    args: Record<string, unknown>,
+    signal?: AbortSignal
 ): Promise<unknown> {
     const response = await fetch(EXA_MCP_ENDPOINT, {
         method: "POST",
@@ -80,6 +85,7 @@ async function callMcpTool(
                 arguments: args,
             },
         }),
+        signal,
     });
 
     const newSessionId = response.headers.get("mcp-session-id");
@@ -103,11 +109,11 @@ async function callMcpTool(
 /**
  * Fetch URL content using Exa MCP crawling tool
  */
-export async function fetchWithExa(url: string): Promise<ExaResult> {
+export async function fetchWithExa(url: string, context: StrategyContext = {}): Promise<ExaResult> {
     try {
         // Initialize session if needed
         if (!mcpSessionId) {
-            const initialized = await initMcpSession();
+            const initialized = await initMcpSession(context.signal);
             if (!initialized) {
                 return {
                     success: false,
@@ -121,7 +127,7 @@ export async function fetchWithExa(url: string): Promise<ExaResult> {
         const result = await callMcpTool("crawling_exa", {
             url: url,
             maxCharacters: 50000,
-        });
+        }, context.signal);
 
         // Parse MCP result
         const content = result as { content?: Array<{ type: string; text: string }> };
@@ -205,3 +211,20 @@ export async function fetchWithExa(url: string): Promise<ExaResult> {
         };
     }
 }
+
+export const descriptor: StrategyDescriptor = {
+    name: "exa",
+    label: "Exa AI",
+    tier: "fallback",
+    output: "markdown",
+    timeout: 45000,
+    validators: MARKDOWN_VALIDATORS,
+    fetch: async (url, context) => {
+        const result = await fetchWithExa(url, context);
+        if (result.success && result.markdown) {
+            // Remove Exa/Jina-style metadata if any (Exa usually clean, but just in case)
+            result.markdown = result.markdown.replace(/^Title:[\s\S]*?Markdown Content:\n+/i, "");
+        }
+        return result;
+    },
+};
@@ -1,4 +1,7 @@
 import { decodeResponse } from "../utils.ts";
+import type { StrategyContext, StrategyDescriptor } from "./registry.ts";
+import { PARALLEL_HTML_VALIDATORS } from "./validators.ts";
+import { signalHeaders } from "../detection/mod.ts";
 
 /**
  * Facebook External Hit Strategy
@@ -10,6 +13,9 @@ export interface FetchResult {
     html?: string;
     error?: string;
     strategy: string;
+    status?: number;
+    finalUrl?: string;
+    headers?: Record<string, string>;
 }
 
 const FACEBOOK_USER_AGENTS = [
@@ -22,7 +28,7 @@ function getRandomItem<T>(arr: T[]): T {
     return arr[Math.floor(Math.random() * arr.length)];
 }
 
-export async function fetchWithFacebookbot(url: string): Promise<FetchResult> {
+export async function fetchWithFacebookbot(url: string, context: StrategyContext = {}): Promise<FetchResult> {
     const userAgent = getRandomItem(FACEBOOK_USER_AGENTS);
 
     try {
@@ -34,7 +40,9 @@ export async function fetchWithFacebookbot(url: string): Promise<FetchResult> {
                 "Accept-Language": "en-US,en;q=0.5",
                 "Accept-Encoding": "gzip, deflate",
                 "Connection": "keep-alive",
+                ...context.headers,
             },
+            signal: context.signal,
         });
 
         if (!response.ok) {
@@ -42,6 +50,7 @@ export async function fetchWithFacebookbot(url: string): Promise<FetchResult> {
                 success: false,
                 error: `HTTP ${response.status}: ${response.statusText}`,
                 strategy: "facebookbot",
+                status: response.status,
             };
         }
 
@@ -51,6 +60,7 @@ export async function fetchWithFacebookbot(url: string): Promise<FetchResult> {
                 success: false,
                 error: `Invalid content type: ${contentType}`,
                 strategy: "facebookbot",
+                status: response.status,
             };
         }
 
@@ -59,6 +69,9 @@ export async function fetchWithFacebookbot(url: string): Promise<FetchResult> {
             success: true,
             html,
             strategy: "facebookbot",
+            status: response.status,
+            finalUrl: response.url,
+            headers: signalHeaders(response.headers),
         };
     } catch (error) {
         return {
@@ -68,3 +81,13 @@ export async function fetchWithFacebookbot(url: string): Promise<FetchResult> {
         };
     }
 }
+
+export const descriptor: StrategyDescriptor = {
+    name: "facebookbot",
+    label: "Facebookbot",
+    tier: "parallel",
+    output: "html",
+    timeout: 15000,
+    validators: PARALLEL_HTML_VALIDATORS,
+    fetch: fetchWithFacebookbot,
+};
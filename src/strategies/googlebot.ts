@@ -4,6 +4,9 @@
  */
 
 import { decodeResponse } from "../utils.ts";
+import type { StrategyContext, StrategyDescriptor } from "./registry.ts";
+import { PARALLEL_HTML_VALIDATORS } from "./validators.ts";
+import { signalHeaders } from "../detection/mod.ts";
 
 // Google IP ranges for X-Forwarded-For spoofing
 const GOOGLE_IPS = [
@@ -36,9 +39,13 @@ export interface FetchResult {
     html?: string;
     error?: string;
     strategy: string;
+    status?: number;
+    finalUrl?: string;
+    headers?: Record<string, string>;
+    pdf?: Uint8Array;
 }
 
-export async function fetchWithGooglebot(url: string): Promise<FetchResult> {
+export async function fetchWithGooglebot(url: string, context: StrategyContext = {}): Promise<FetchResult> {
     const userAgent = getRandomItem(GOOGLEBOT_USER_AGENTS);
     const forwardedIP = getRandomItem(GOOGLE_IPS);
 
@@ -52,7 +59,9 @@ export async function fetchWithGooglebot(url: string): Promise<FetchResult> {
                 "Accept-Encoding": "gzip, deflate",
                 "Connection": "keep-alive",
                 "Cache-Control": "no-cache",
+                ...context.headers,
             },
+            signal: context.signal,
         });
 
         if (!response.ok) {
@@ -60,6 +69,7 @@ export async function fetchWithGooglebot(url: string): Promise<FetchResult> {
                 success: false,
                 error: `HTTP ${response.status}: ${response.statusText}`,
                 strategy: "googlebot",
+                status: response.status,
             };
         }
 
@@ -69,6 +79,7 @@ export async function fetchWithGooglebot(url: string): Promise<FetchResult> {
                 success: false,
                 error: `Invalid content type: ${contentType}`,
                 strategy: "googlebot",
+                status: response.status,
             };
         }
 
@@ -77,6 +88,9 @@ export async function fetchWithGooglebot(url: string): Promise<FetchResult> {
             success: true,
             html,
             strategy: "googlebot",
+            status: response.status,
+            finalUrl: response.url,
+            headers: signalHeaders(response.headers),
         };
     } catch (error) {
         return {
@@ -86,3 +100,13 @@ export async function fetchWithGooglebot(url: string): Promise<FetchResult> {
         };
     }
 }
+
+export const descriptor: StrategyDescriptor = {
+    name: "googlebot",
+    label: "Googlebot",
+    tier: "parallel",
+    output: "html",
+    timeout: 15000,
+    validators: PARALLEL_HTML_VALIDATORS,
+    fetch: fetchWithGooglebot,
+};
@@ -1,17 +1,8 @@
 
-// import { StrategyResult } from "./types.ts";
 import { fetchWithStrategies } from "./mod.ts";
+import type { StrategyContext, StrategyDescriptor, StrategyResult } from "./registry.ts";
 
-interface StrategyResult {
-    success: boolean;
-    html?: string;
-    markdown?: string;
-    title?: string;
-    strategy: string;
-    error?: string;
-}
-
-export async function fetchWithGoogleNews(url: string): Promise<StrategyResult> {
+export async function fetchWithGoogleNews(url: string, context: StrategyContext = {}): Promise<StrategyResult> {
     try {
         console.log(`[Google News] Attempting to decode URL: ${url}`);
 
@@ -47,7 +38,8 @@ export async function fetchWithGoogleNews(url: string): Promise<StrategyResult>
         // We set strategy to 'auto' or ignore to let it race
         const result = await fetchWithStrategies(decodedUrl, {
             bypass: true,
-            strategy: undefined // let it race
+            strategy: undefined, // let it race
+            signal: context.signal,
         });
 
         // Map MultiStrategyResult to StrategyResult
@@ -83,3 +75,12 @@ export async function fetchWithGoogleNews(url: string): Promise<StrategyResult>
         };
     }
 }
+
+export const descriptor: StrategyDescriptor = {
+    name: "googlenews",
+    label: "Google News decoder",
+    tier: "manual",
+    output: "html",
+    timeout: 60000,
+    fetch: fetchWithGoogleNews,
+};
@@ -4,17 +4,21 @@
  * Returns Markdown directly, not HTML
  */
 
+import type { StrategyContext, StrategyDescriptor } from "./registry.ts";
+import { MARKDOWN_VALIDATORS } from "./validators.ts";
+
 export interface JinaResult {
     success: boolean;
     markdown?: string;
     title?: string;
     error?: string;
     strategy: string;
+    status?: number;
 }
 
 const JINA_READER_URL = "https://r.jina.ai/";
 
-export async function fetchWithJina(url: string): Promise<JinaResult> {
+export async function fetchWithJina(url: string, context: StrategyContext = {}): Promise<JinaResult> {
     const jinaUrl = `${JINA_READER_URL}${url}`;
 
     try {
@@ -23,6 +27,7 @@ export async function fetchWithJina(url: string): Promise<JinaResult> {
                 "Accept": "text/plain",
                 "User-Agent": "URL-to-Markdown/1.0",
             },
+            signal: context.signal,
         });
 
         if (!response.ok) {
@@ -30,6 +35,7 @@ export async function fetchWithJina(url: string): Promise<JinaResult> {
                 success: false,
                 error: `Jina API error: ${response.status} ${response.statusText}`,
                 strategy: "jina",
+                status: response.status,
             };
         }
 
@@ -40,6 +46,7 @@ export async function fetchWithJina(url: string): Promise<JinaResult> {
                 success: false,
                 error: "Jina returned empty or too short content",
                 strategy: "jina",
+                status: response.status,
             };
         }
 
@@ -52,6 +59,7 @@ export async function fetchWithJina(url: string): Promise<JinaResult> {
             markdown,
             title,
             strategy: "jina",
+            status: response.status,
         };
     } catch (error) {
         return {
@@ -97,3 +105,20 @@ export async function searchWithJina(query: string): Promise<JinaResult> {
         };
     }
 }
+
+export const descriptor: StrategyDescriptor = {
+    name: "jina",
+    label: "Jina Reader",
+    tier: "fallback",
+    output: "markdown",
+    timeout: 30000,
+    validators: MARKDOWN_VALIDATORS,
+    fetch: async (url, context) => {
+        const result = await fetchWithJina(url, context);
+        if (result.success && result.markdown) {
+            // Remove Jina metadata headers
+            result.markdown = result.markdown.replace(/^Title:[\s\S]*?Markdown Content:\n+/i, "");
+        }
+        return result;
+    },
+};
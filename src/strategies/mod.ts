@@ -1,12 +1,13 @@
-// @ts-nocheck
 /**
  * Multi-Strategy Fetcher Module (Enhanced)
  * Provides parallel fetch with cascade fallback
  * 
  * Enhancements:
+ * - Declarative strategy registry (see registry.ts)
+ * - Per-domain race ordering learned from past outcomes (see stats.ts)
  * - Parallel racing with Promise.race()
  * - Additional bot strategies (facebookbot, bingbot)
- * - Enhanced paywall/Cloudflare detection (20+ patterns)
+ * - Weighted, explainable paywall/Cloudflare detection (see src/detection)
  * - Exa AI via MCP (FREE, no API key required!)
  */
 
@@ -17,258 +18,270 @@ export { fetchWithJina, type JinaResult } from "./jina.ts";
 export { fetchWithFacebookbot } from "./facebookbot.ts";
 export { fetchWithBingbot } from "./bingbot.ts";
 export { fetchWithExa } from "./exa.ts";
-
-import { fetchWithGooglebot, type FetchResult } from "./googlebot.ts";
-import { fetchFromArchive } from "./archive.ts";
-import { fetchWith12ft } from "./twelveft.ts";
-import { fetchWithJina, type JinaResult } from "./jina.ts";
-import { fetchWithFacebookbot } from "./facebookbot.ts";
-import { fetchWithBingbot } from "./bingbot.ts";
-import { fetchWithExa } from "./exa.ts";
-
-import { decodeResponse } from "../utils.ts";
-
-export type Strategy = "direct" | "googlebot" | "facebookbot" | "bingbot" | "archive" | "12ft" | "jina" | "exa" | "googlenews";
+export { fetchDirect } from "./direct.ts";
+export { fetchWithRender } from "./render.ts";
+export { flushStats, getStats, initStats, resetStats, type DomainStats, type StrategyStats } from "./stats.ts";
+export {
+    getStrategy,
+    getStrategyNames,
+    isRegisteredStrategy,
+    listStrategies,
+    loadStrategyModules,
+    registerStrategy,
+    type StrategyContext,
+    type StrategyDescriptor,
+    type StrategyResult,
+    type StrategyTier,
+    type StrategyValidator,
+} from "./registry.ts";
+
+import { descriptor as direct } from "./direct.ts";
+import { descriptor as googlebot } from "./googlebot.ts";
+import { descriptor as facebookbot } from "./facebookbot.ts";
+import { descriptor as bingbot } from "./bingbot.ts";
+import { descriptor as twelveft } from "./twelveft.ts";
+import { descriptor as archive } from "./archive.ts";
+import { descriptor as jina } from "./jina.ts";
+import { descriptor as exa } from "./exa.ts";
+import { descriptor as googlenews } from "./googlenews.ts";
+import { descriptor as render, isRenderConfigured } from "./render.ts";
+import {
+    getStrategy,
+    getStrategyNames,
+    isRegisteredStrategy,
+    loadStrategyModules,
+    registerStrategy,
+    type StrategyContext,
+    type StrategyResult,
+    type StrategyValidator,
+    validateResult,
+} from "./registry.ts";
+import { describeVerdict, isGoogleErrorPage } from "../detection/mod.ts";
+import { verdictOf } from "./validators.ts";
+import { createLinkedSignal, readEnv } from "../utils.ts";
+import { findRule, ruleHeaders, ruleName, type DomainRule } from "../rules.ts";
+import { planRace, recordOutcome } from "./stats.ts";
+
+export type BuiltinStrategy = "direct" | "googlebot" | "facebookbot" | "bingbot" | "archive" | "12ft" | "jina" | "exa" | "googlenews" | "render";
+
+// Any registered strategy name; built-ins are listed for editor completion
+export type Strategy = BuiltinStrategy | (string & Record<never, never>);
 
 export interface MultiStrategyResult {
     success: boolean;
     html?: string;
     markdown?: string;  // Only from Jina or Exa
+    pdf?: Uint8Array;   // When the origin served a PDF
+    /** URL the page was served from, after redirects */
+    finalUrl?: string;
     title?: string;
     strategy: Strategy;
     error?: string;
-    attempts: Array<{ strategy: Strategy; error?: string }>;
+    attempts: StrategyAttempt[];
+    /** Name of the domain rule applied to this URL, if any */
+    rule?: string;
     elapsed?: number;
 }
 
-// Parallel strategies (race for fastest success)
-const PARALLEL_STRATEGIES: Strategy[] = ["direct", "googlebot", "facebookbot", "bingbot"];
-
-// Fallback strategies (sequential)
-const FALLBACK_STRATEGIES: Strategy[] = ["12ft", "archive", "jina", "exa"];
+export interface FetchStrategiesOptions {
+    bypass: boolean;
+    strategy?: Strategy;
+    /** Cancels every in-flight fetch when aborted */
+    signal?: AbortSignal;
+    /** Overall deadline in milliseconds (defaults to FETCH_DEADLINE) */
+    deadline?: number;
+}
 
 /**
- * Helper to decode response, handling GBK/GB2312 if detected
+ * One entry of the attempt trace. Times are epoch milliseconds.
  */
-async function decodeResponseWrapper(response: Response): Promise<string> {
-    return await decodeResponse(response);
+export interface StrategyAttempt {
+    strategy: Strategy;
+    success?: boolean;
+    startedAt?: number;
+    endedAt?: number;
+    /** HTTP status of the strategy's final response */
+    status?: number;
+    /** Size of the returned HTML or Markdown in bytes */
+    bytes?: number;
+    /** Fetch error or rejection reason (e.g. "Content likely incomplete (SPA shell)") */
+    error?: string;
+    /** Set when the attempt was planned or skipped by a domain rule */
+    rule?: string;
+    /** Not attempted (skipped by a rule or pruned by learned statistics) */
+    skipped?: boolean;
+    /** Aborted because another strategy won the race or the request was cancelled */
+    cancelled?: boolean;
+}
+
+const FETCH_DEADLINE_MS = Number(readEnv("FETCH_DEADLINE") || 90) * 1000;
+
+// Built-in strategies, in race order within each tier
+[direct, googlebot, facebookbot, bingbot, twelveft, archive, jina, exa, googlenews].forEach(registerStrategy);
+
+// Local rendering needs a browser endpoint
+if (isRenderConfigured()) {
+    registerStrategy(render);
 }
 
 /**
- * Clean Jina/Exa output (remove metadata headers)
+ * Load extra strategy modules listed in STRATEGY_MODULES (comma separated specifiers)
  */
-function cleanMarkdown(markdown: string): string {
-    if (!markdown) return "";
-
-    // Remove Jina/Reader headers (Title: ... URL Source: ... Markdown Content:)
-    const contentMarker = "Markdown Content:";
-    const markerIndex = markdown.indexOf(contentMarker);
-    if (markerIndex !== -1 && markerIndex < 500) { // Only if at start
-        return markdown.slice(markerIndex + contentMarker.length).trim();
+export async function loadConfiguredStrategies(): Promise<void> {
+    const specifiers = (readEnv("STRATEGY_MODULES") || "").split(",").map((s) => s.trim()).filter(Boolean);
+    if (specifiers.length > 0) {
+        await loadStrategyModules(specifiers);
     }
-    return markdown;
 }
 
 /**
- * Fetch with direct request (no bypass)
+ * Parse a user supplied strategy name ("auto" and empty mean no preference)
  */
-async function fetchDirect(url: string): Promise<FetchResult> {
-    try {
-        const response = await fetch(url, {
-            headers: {
-                "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-                "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-                "Accept-Language": "en-US,en;q=0.5",
-            },
-        });
-
-        if (!response.ok) {
-            return {
-                success: false,
-                error: `HTTP ${response.status}`,
-                strategy: "direct",
-            };
-        }
+export function parseStrategy(value: string | null | undefined): Strategy | undefined {
+    if (!value || value === "auto") return undefined;
+    if (!isRegisteredStrategy(value)) {
+        throw new Error(`Unknown strategy "${value}". Available: ${getStrategyNames().join(", ")}`);
+    }
+    return value;
+}
 
-        const contentType = response.headers.get("Content-Type") || "";
-        if (!contentType.includes("text/html")) {
-            return {
-                success: false,
-                error: `Invalid content type: ${contentType}`,
-                strategy: "direct",
-            };
-        }
+/**
+ * Execute a single strategy fetch, bounded by the strategy's timeout.
+ * The fetch is aborted when the timeout fires or the caller's signal aborts.
+ */
+async function executeStrategy(url: string, strategy: Strategy, context: StrategyContext = {}): Promise<StrategyResult> {
+    const descriptor = getStrategy(strategy);
+    if (!descriptor) {
+        return { success: false, error: "Unknown strategy", strategy };
+    }
+    if (context.signal?.aborted) {
+        return { success: false, error: abortMessage(context.signal), strategy };
+    }
 
-        const html = await decodeResponseWrapper(response);
+    const linked = createLinkedSignal(context.signal, descriptor.timeout);
+    const { signal } = linked;
 
-        // Check for blocks and paywalls
-        if (isBlocked(html)) {
-            return {
-                success: false,
-                error: "Blocked by Cloudflare or anti-bot",
-                strategy: "direct",
-            };
-        }
+    // Resolve as soon as the signal fires, even if a fetcher ignores it
+    let onAbort: (() => void) | undefined;
+    const aborted = new Promise<StrategyResult>((resolve) => {
+        onAbort = () => {
+            const message = linked.timedOut() ? `Timed out after ${descriptor.timeout}ms` : abortMessage(signal);
+            resolve({ success: false, error: message, strategy });
+        };
+        signal.addEventListener("abort", onAbort, { once: true });
+    });
 
-        if (isPaywalled(html)) {
-            return {
-                success: false,
-                error: "Paywall detected",
-                strategy: "direct",
-            };
-        }
+    try {
+        return await Promise.race([descriptor.fetch(url, { ...context, signal }), aborted]);
+    } finally {
+        signal.removeEventListener("abort", onAbort!);
+        linked.dispose();
+    }
+}
 
-        return {
-            success: true,
-            html,
-            strategy: "direct",
-        };
-    } catch (error) {
-        return {
-            success: false,
-            error: error instanceof Error ? error.message : String(error),
-            strategy: "direct",
-            // @ts-ignore
-            fallback: true
-        };
+/**
+ * Describe why a signal was aborted
+ */
+function abortMessage(signal: AbortSignal): string {
+    const reason = signal.reason;
+    if (reason instanceof Error) {
+        return reason.name === "TimeoutError" ? `Overall deadline exceeded (${reason.message})` : reason.message;
     }
+    return reason ? String(reason) : "Aborted";
 }
 
 /**
- * Enhanced Cloudflare/anti-bot detection (20+ patterns)
+ * Check a result against the strategy's validators plus any extra (rule) validators
  */
-function isBlocked(html: string): boolean {
-    const blockedPatterns = [
-        /sorry,?\s*you have been blocked/i,
-        /you are unable to access/i,
-        /cloudflare ray id/i,
-        /enable cookies/i,
-        /checking your browser/i,
-        /please wait while we check/i,
-        /security check/i,
-        /just a moment/i,
-        /one more step/i,
-        /completing the captcha/i,
-        /access denied/i,
-        /403 forbidden/i,
-        /robot check/i,
-        /captcha/i,
-        /are you a robot/i,
-        /prove you're human/i,
-        /please verify you are/i,
-        /please verify you are/i,
-        /opening this page/i, // Google News client-side redirect
-        /<title>Google News<\/title>/i,
-    ];
-
-    const text = html.slice(0, 5000).toLowerCase();
-    return blockedPatterns.some(pattern => pattern.test(text));
+function rejectionReason(
+    strategy: Strategy,
+    result: StrategyResult,
+    url: string,
+    extraValidators: StrategyValidator[],
+): string | undefined {
+    if (!result.success) return result.error || "Failed";
+    // Validators inspect HTML or Markdown; a PDF is a real document and is converted later
+    if (result.pdf) return undefined;
+
+    const descriptor = getStrategy(strategy);
+    const reason = descriptor ? validateResult(descriptor, result, url) : undefined;
+    if (reason) return reason;
+
+    for (const validator of extraValidators) {
+        const extra = validator(result, url);
+        if (extra) return extra;
+    }
+    return undefined;
 }
 
 /**
- * Enhanced paywall detection
+ * Add a started attempt to the trace
  */
-function isPaywalled(html: string): boolean {
-    const paywallPatterns = [
-        /class="[^"]*paywall[^"]*"/i,
-        /id="[^"]*paywall[^"]*"/i,
-        /subscribe.{0,20}to.{0,20}continue/i,
-        /sign.{0,10}up.{0,20}to.{0,20}read/i,
-        /premium.{0,20}content/i,
-        /members?.{0,10}only/i,
-        /login.{0,20}to.{0,20}view/i,
-        /data-paywall/i,
-        /this article is for subscribers/i,
-        /you've reached your limit/i,
-        /create.{0,10}an.{0,10}account/i,
-        /start your free trial/i,
-    ];
-
-    const text = html.slice(0, 10000);
-    return paywallPatterns.some(pattern => pattern.test(text));
+function startAttempt(attempts: StrategyAttempt[], strategy: Strategy, rule?: string): StrategyAttempt {
+    const attempt: StrategyAttempt = { strategy, startedAt: Date.now(), rule };
+    attempts.push(attempt);
+    return attempt;
 }
 
 /**
- * Detect Google Search error/redirect pages (invalid content)
+ * Complete a traced attempt (no-op if it was already closed, e.g. as a lost racer)
  */
-function isGoogleErrorPage(html: string): boolean {
-    const errorPatterns = [
-        /If you're having trouble accessing Google Search/i,
-        /click here.*send feedback/i,
-        /<title>Google Search<\/title>/i,
-        /emsg=SG_REL/i,  // Google's error redirect parameter
-    ];
-
-    const text = html.slice(0, 3000);
-    return errorPatterns.some(pattern => pattern.test(text));
+function finishAttempt(attempt: StrategyAttempt, result: StrategyResult, reason?: string): void {
+    if (attempt.endedAt !== undefined) return;
+    const content = result.markdown || result.html || "";
+    attempt.endedAt = Date.now();
+    attempt.success = !reason;
+    attempt.status = result.status;
+    attempt.bytes = result.pdf?.length ?? (content ? new TextEncoder().encode(content).length : 0);
+    attempt.error = reason;
 }
 
 /**
- * Execute a single strategy fetch
+ * Execute and validate one strategy, tracing it and recording the outcome in the learned statistics
  */
-async function executeStrategy(url: string, strategy: Strategy): Promise<FetchResult | JinaResult | any> {
-    switch (strategy) {
-        case "direct":
-            return await fetchDirect(url);
-        case "googlebot":
-            return await fetchWithGooglebot(url);
-        case "facebookbot":
-            return await fetchWithFacebookbot(url);
-        case "bingbot":
-            return await fetchWithBingbot(url);
-        case "archive":
-            return await fetchFromArchive(url);
-        case "12ft":
-            return await fetchWith12ft(url);
-        case "jina": {
-            const result = await fetchWithJina(url);
-            if (result.success && result.markdown) {
-                // Remove Jina metadata headers
-                result.markdown = result.markdown.replace(/^Title:[\s\S]*?Markdown Content:\n+/i, "");
-            }
-            return result;
-        }
-        case "exa": {
-            const result = await fetchWithExa(url);
-            if (result.success && result.markdown) {
-                // Remove Exa/Jina-style metadata if any (Exa usually clean, but just in case)
-                result.markdown = result.markdown.replace(/^Title:[\s\S]*?Markdown Content:\n+/i, "");
-            }
-            return result;
-        }
-        case "googlenews":
-            // @ts-ignore
-            const { fetchWithGoogleNews } = await import("./googlenews.ts");
-            return await fetchWithGoogleNews(url);
-        default:
-            return { success: false, error: "Unknown strategy", strategy: "direct" };
+async function attemptStrategy(
+    url: string,
+    strategy: Strategy,
+    context: StrategyContext,
+    extraValidators: StrategyValidator[],
+    attempts: StrategyAttempt[],
+    rule?: string,
+): Promise<{ result: StrategyResult; reason?: string }> {
+    const attempt = startAttempt(attempts, strategy, rule);
+    const result = await executeStrategy(url, strategy, context);
+    const reason = rejectionReason(strategy, result, url, extraValidators);
+    finishAttempt(attempt, result, reason);
+    // Attempts cut short by the caller (lost race, client gone) say nothing about the strategy
+    if (!context.signal?.aborted) {
+        recordOutcome(url, strategy, !reason, attempt.endedAt! - attempt.startedAt!);
     }
+    return { result: { ...result, strategy }, reason };
 }
 
 /**
- * Parallel fetch - race multiple strategies
+ * Race a set of strategies and return the first result that passes its validators
  */
-async function fetchParallel(url: string, strategies: Strategy[]): Promise<FetchResult | JinaResult | null> {
+async function raceStrategies(
+    url: string,
+    strategies: Strategy[],
+    label: string,
+    attempts: StrategyAttempt[],
+    context: StrategyContext = {},
+    extraValidators: StrategyValidator[] = [],
+): Promise<StrategyResult | null> {
+    // Aborted once a winner is found so losing racers stop downloading
+    const race = createLinkedSignal(context.signal);
+    const raceContext: StrategyContext = { ...context, signal: race.signal };
+    const raceAttempts: StrategyAttempt[] = [];
+
     const promises = strategies.map(async (strategy) => {
-        const result = await executeStrategy(url, strategy);
+        const { result, reason } = await attemptStrategy(url, strategy, raceContext, extraValidators, raceAttempts);
+        console.log(`[${label}:${strategy}] Success: ${result.success}, Length: ${(result.markdown || result.html || "").length}`);
 
-        // Jina returns markdown, accept it if it has content
-        if ("markdown" in result && result.markdown && result.markdown.length > 100) {
-            return result;
+        if (reason) {
+            throw new Error(reason);
         }
-
-        // HTML based strategies
-        const html = "html" in result ? result.html || "" : "";
-        console.log(`[Strategy:${strategy}] Success: ${result.success}, Length: ${html.length}`);
-        if (result.success && !isBlocked(html) && !isPaywalled(html) && !isGoogleErrorPage(html)) {
-            // SPA detection: If HTML is too short, it's likely a shell. 
-            // Reject it so Promise.any waits for better strategies (like Jina).
-            if (html.length < 10000) { // Increased to 10k to be safe for modern sites
-                throw new Error("Content likely incomplete (SPA shell)");
-            }
-            return result;
-        }
-        throw new Error(result.error || "Failed");
+        return result;
     });
 
     try {
@@ -277,40 +290,60 @@ async function fetchParallel(url: string, strategies: Strategy[]): Promise<Fetch
     } catch {
         // All failed
         return null;
+    } finally {
+        race.abort("Lost race");
+        race.dispose();
+
+        // Close out racers that were still running so the trace is final
+        const now = Date.now();
+        for (const attempt of raceAttempts) {
+            if (attempt.endedAt === undefined) {
+                attempt.endedAt = now;
+                attempt.success = false;
+                attempt.cancelled = true;
+                attempt.error = context.signal?.aborted ? abortMessage(context.signal) : "Lost race";
+            }
+        }
+        attempts.push(...raceAttempts);
     }
 }
 
 /**
- * Parallel fetch for fallback strategies (12ft, archive, jina, exa)
- * These strategies are slower but more reliable, so we race them too
- * No HTML length check since Jina/Exa return markdown directly
+ * Race a tier using learned statistics: drop strategies that keep failing on this
+ * domain and try a dominant one alone before racing the others
  */
-async function fetchParallelFallback(url: string, strategies: Strategy[]): Promise<FetchResult | JinaResult | null> {
-    const promises = strategies.map(async (strategy) => {
-        const result = await executeStrategy(url, strategy);
-
-        // Markdown-based strategies (Jina, Exa)
-        if ("markdown" in result && result.markdown && result.markdown.length > 100) {
-            console.log(`[Fallback:${strategy}] Markdown success, Length: ${result.markdown.length}`);
-            return result;
-        }
+async function raceTier(
+    url: string,
+    strategies: Strategy[],
+    label: string,
+    attempts: StrategyAttempt[],
+    context: StrategyContext = {},
+    extraValidators: StrategyValidator[] = [],
+): Promise<StrategyResult | null> {
+    const plan = planRace(url, strategies);
+
+    for (const name of plan.pruned) {
+        attempts.push({ strategy: name, skipped: true, error: "Pruned by learned statistics" });
+    }
 
-        // HTML-based strategies (12ft, archive)
-        if ("html" in result && result.html && result.html.length > 1000) {
-            if (result.success && !isBlocked(result.html) && !isPaywalled(result.html) && !isGoogleErrorPage(result.html)) {
-                console.log(`[Fallback:${strategy}] HTML success, Length: ${result.html.length}`);
-                return result;
-            }
-        }
+    if (plan.preferred) {
+        console.log(`[${label}] Trying learned preference first: ${plan.preferred}`);
+        const { result, reason } = await attemptStrategy(url, plan.preferred, context, extraValidators, attempts);
+        if (!reason) return result;
+    }
 
-        throw new Error(result.error || "Failed");
-    });
+    return await raceStrategies(url, plan.ordered, label, attempts, context, extraValidators);
+}
 
-    try {
-        return await Promise.any(promises);
-    } catch {
-        return null;
-    }
+/**
+ * Validators a domain rule adds on top of each strategy's own
+ */
+function ruleValidators(rule?: DomainRule): StrategyValidator[] {
+    const min = rule?.minContentLength;
+    if (!min) return [];
+    return [(result) => (result.markdown || result.html || "").length < min
+        ? `Content shorter than rule minimum (${min})`
+        : undefined];
 }
 
 /**
@@ -318,19 +351,81 @@ async function fetchParallelFallback(url: string, strategies: Strategy[]): Promi
  */
 export async function fetchWithStrategies(
     url: string,
-    options: { bypass: boolean; strategy?: Strategy }
+    options: FetchStrategiesOptions
+): Promise<MultiStrategyResult> {
+    // Overall deadline, combined with the caller's signal (e.g. client disconnect)
+    const deadline = createLinkedSignal(options.signal, options.deadline ?? FETCH_DEADLINE_MS);
+    try {
+        return await runStrategies(url, options, deadline.signal);
+    } finally {
+        deadline.dispose();
+    }
+}
+
+async function runStrategies(
+    url: string,
+    options: FetchStrategiesOptions,
+    signal: AbortSignal
 ): Promise<MultiStrategyResult> {
     const { strategy } = options;
     let { bypass } = options;
     const startTime = Date.now();
-    const attempts: Array<{ strategy: Strategy; error?: string }> = [];
+    const attempts: StrategyAttempt[] = [];
+
+    // Domain rule: custom headers, skip list, minimum length and an optional plan
+    const rule = findRule(url);
+    const ruleId = rule ? ruleName(rule) : undefined;
+    const context: StrategyContext = { headers: rule ? ruleHeaders(rule) : undefined, signal };
+    const aborted = (): MultiStrategyResult => ({
+        success: false,
+        error: abortMessage(signal),
+        strategy: "direct",
+        attempts,
+        rule: ruleId,
+        elapsed: Date.now() - startTime,
+    });
+    const extraValidators = ruleValidators(rule);
+    const skipped = new Set(rule?.skip ?? []);
+    const allowed = (names: Strategy[]): Strategy[] => names.filter((name) => !skipped.has(name));
+    const finish = (result: StrategyResult, used: Strategy): MultiStrategyResult => ({
+        ...createResult(result, used, attempts, startTime),
+        rule: ruleId,
+    });
 
     // If specific strategy requested, use it directly (bypass parallel race)
-    if (strategy && strategy !== "custom" && strategy !== "auto") {
+    if (strategy && strategy !== "auto") {
         console.log(`[Fetch] Using explicit strategy: ${strategy}`);
-        const result = await executeStrategy(url, strategy);
-        attempts.push({ strategy, error: result.error });
-        return createResult(result, strategy, attempts, startTime);
+        const attempt = startAttempt(attempts, strategy);
+        const result = await executeStrategy(url, strategy, context);
+        finishAttempt(attempt, result, result.success ? undefined : result.error || "Failed");
+        return finish(result, strategy);
+    }
+
+    if (rule) {
+        console.log(`[Fetch] Applying domain rule "${ruleId}"`);
+        for (const name of skipped) {
+            attempts.push({ strategy: name, skipped: true, rule: ruleId, error: "Skipped by domain rule" });
+        }
+
+        // Planned strategies are tried one by one, in order
+        for (const name of allowed(rule.plan ?? [])) {
+            const { result, reason } = await attemptStrategy(url, name, context, extraValidators, attempts, ruleId);
+            if (!reason) {
+                console.log(`[Fetch] Rule plan succeeded with: ${name}`);
+                return finish(result, name);
+            }
+        }
+
+        if (rule.plan && rule.exclusive) {
+            return {
+                success: false,
+                error: `Rule "${ruleId}" plan failed. Attempts: ${attempts.map(a => `${a.strategy}: ${a.error}`).join("; ")}`,
+                strategy: rule.plan[0] || "direct",
+                attempts,
+                rule: ruleId,
+                elapsed: Date.now() - startTime,
+            };
+        }
     }
 
     // Auto-detect Google News URL
@@ -339,22 +434,27 @@ export async function fetchWithStrategies(
 
         // Try Archive.org first - most reliable for Google News redirects
         console.log(`[Fetch] Trying Archive.org first for Google News...`);
-        const archiveResult = await executeStrategy(url, "archive");
-        attempts.push({ strategy: "archive", error: archiveResult.error });
-
-        if (archiveResult.success && archiveResult.html && archiveResult.html.length > 10000) {
-            console.log(`[Fetch] Archive.org succeeded for Google News`);
-            return createResult(archiveResult, "archive", attempts, startTime);
+        if (!skipped.has("archive")) {
+            const attempt = startAttempt(attempts, "archive");
+            const archiveResult = await executeStrategy(url, "archive", context);
+            const usable = archiveResult.success && !!archiveResult.html && archiveResult.html.length > 10000;
+            finishAttempt(attempt, archiveResult, usable ? undefined : archiveResult.error || "Archive snapshot too short");
+
+            if (usable) {
+                console.log(`[Fetch] Archive.org succeeded for Google News`);
+                return finish(archiveResult, "archive");
+            }
         }
 
         // If Archive fails, try the decoder
         console.log(`[Fetch] Archive failed, trying googlenews decoder...`);
-        const result = await executeStrategy(url, "googlenews");
-        attempts.push({ strategy: "googlenews", error: result.error });
+        const attempt = startAttempt(attempts, "googlenews");
+        const result = await executeStrategy(url, "googlenews", context);
+        finishAttempt(attempt, result, result.success ? undefined : result.error || "Failed");
 
         // If successful, return immediately
         if (result.success) {
-            return createResult(result, "googlenews", attempts, startTime);
+            return finish(result, "googlenews");
         }
 
         console.log(`[Fetch] Google News decoder failed, enabling bypass to try remaining fallbacks...`);
@@ -362,50 +462,87 @@ export async function fetchWithStrategies(
     }
 
 
+    if (signal.aborted) return aborted();
+
+    // A rule that skips direct implies bypass mode
+    if (skipped.has("direct")) {
+        bypass = true;
+    }
+
     // If bypass mode is off, only try direct
     if (!bypass) {
-        const result = await fetchDirect(url);
-        attempts.push({ strategy: "direct", error: result.error });
+        const attempt = startAttempt(attempts, "direct");
+        const result = await executeStrategy(url, "direct", context);
+        const verdict = result.html ? verdictOf(result, url) : undefined;
+        let unusable: string | undefined;
+        if (!result.success) {
+            unusable = result.error || "Failed";
+        } else if (result.html && isGoogleErrorPage(result.html)) {
+            unusable = "Google error page";
+        } else if (verdict?.blocked) {
+            unusable = `Blocked (${describeVerdict(verdict, "blocked")})`;
+        }
+        finishAttempt(attempt, result, unusable);
+        if (!signal.aborted) {
+            recordOutcome(url, "direct", !unusable, attempt.endedAt! - attempt.startedAt!);
+        }
 
         // Check if direct result is a Google error page - if so, force bypass mode
         if (result.success && result.html) {
-            if (isGoogleErrorPage(result.html) || isBlocked(result.html)) {
+            if (isGoogleErrorPage(result.html) || verdict?.blocked) {
                 console.log(`[Fetch] Direct returned Google error/blocked page, forcing bypass mode...`);
                 bypass = true;
             } else {
-                return createResult(result, "direct", attempts, startTime);
+                return finish(result, "direct");
             }
         } else if (!result.success) {
             // Direct failed, try bypass mode
             console.log(`[Fetch] Direct failed, trying bypass mode...`);
             bypass = true;
         } else {
-            return createResult(result, "direct", attempts, startTime);
+            return finish(result, "direct");
         }
     }
 
+    if (signal.aborted) return aborted();
+
     // 1. Parallel race for bot strategies
     // Skip if Google News strategy failed (bots can't handle the JS redirect)
     let parallelResult = null;
     if (!url.includes("news.google.com")) {
         console.log(`[Fetch] Starting parallel race for: ${url}`);
-        parallelResult = await fetchParallel(url, PARALLEL_STRATEGIES);
+        parallelResult = await raceTier(url, allowed(getStrategyNames("parallel")), "Strategy", attempts, context, extraValidators);
     } else {
         console.log(`[Fetch] Skipping bot race for Google News URL`);
     }
 
     if (parallelResult && parallelResult.success) {
         console.log(`[Fetch] Parallel success with: ${parallelResult.strategy}`);
-        return createResult(parallelResult, parallelResult.strategy as Strategy, attempts, startTime);
+        return finish(parallelResult, parallelResult.strategy);
     }
 
-    // 2. Parallel race for fallback strategies (12ft, archive, jina, exa)
+    if (signal.aborted) return aborted();
+
+    // 2. Local strategies (headless rendering) before handing the URL to third parties
+    const localStrategies = allowed(getStrategyNames("local"));
+    if (localStrategies.length > 0) {
+        console.log(`[Fetch] Primary parallel failed, trying local strategies...`);
+        const localResult = await raceTier(url, localStrategies, "Local", attempts, context, extraValidators);
+        if (localResult && localResult.success) {
+            console.log(`[Fetch] Local success with: ${localResult.strategy}`);
+            return finish(localResult, localResult.strategy);
+        }
+    }
+
+    if (signal.aborted) return aborted();
+
+    // 3. Parallel race for fallback strategies
     console.log(`[Fetch] Primary parallel failed, starting fallback parallel race...`);
-    const fallbackResult = await fetchParallelFallback(url, FALLBACK_STRATEGIES);
+    const fallbackResult = await raceTier(url, allowed(getStrategyNames("fallback")), "Fallback", attempts, context, extraValidators);
 
     if (fallbackResult && fallbackResult.success) {
         console.log(`[Fetch] Fallback parallel success with: ${fallbackResult.strategy}`);
-        return createResult(fallbackResult, fallbackResult.strategy as Strategy, attempts, startTime);
+        return finish(fallbackResult, fallbackResult.strategy);
     }
 
     console.log(`[Fetch] All strategies failed`);
@@ -415,17 +552,18 @@ export async function fetchWithStrategies(
         error: `All strategies failed. Attempts: ${attempts.map(a => `${a.strategy}: ${a.error}`).join("; ")}`,
         strategy: "direct",
         attempts,
+        rule: ruleId,
         elapsed: Date.now() - startTime,
     };
 }
 
 // Re-export detection functions for external use
-export { isBlocked, isPaywalled };
+export { detect, isBlocked, isPaywalled, type DetectionVerdict } from "../detection/mod.ts";
 
 function createResult(
-    result: any,
+    result: StrategyResult,
     strategy: Strategy,
-    attempts: Array<{ strategy: Strategy; error?: string }>,
+    attempts: StrategyAttempt[],
     startTime: number
 ): MultiStrategyResult {
     if ("markdown" in result) {
@@ -443,6 +581,8 @@ function createResult(
     return {
         success: result.success,
         html: result.html,
+        pdf: result.pdf,
+        finalUrl: result.finalUrl,
         strategy: strategy,
         attempts,
         elapsed: Date.now() - startTime,
@@ -0,0 +1,126 @@
+/**
+ * Strategy Registry
+ * Each strategy module exports a descriptor; racing tiers, the MCP enum and
+ * the strategy option parser are all derived from what is registered here.
+ */
+
+import type { DetectionVerdict } from "../detection/mod.ts";
+
+export interface StrategyResult {
+    success: boolean;
+    html?: string;
+    markdown?: string;
+    title?: string;
+    error?: string;
+    strategy: string;
+    /** HTTP status of the final response, when there was one */
+    status?: number;
+    /** URL of the final response, after redirects */
+    finalUrl?: string;
+    /** Origin response headers used as block detection signals (cf-ray, ...) */
+    headers?: Record<string, string>;
+    /** Raw document when the origin served a PDF instead of HTML */
+    pdf?: Uint8Array;
+    /** Block/paywall verdict for `html`, computed once per result (see verdictOf) */
+    verdict?: DetectionVerdict;
+}
+
+/**
+ * Per-request context handed to every strategy
+ */
+export interface StrategyContext {
+    /** Extra headers for requests that go to the origin (e.g. from domain rules) */
+    headers?: Record<string, string>;
+    /** Aborted on per-strategy timeout, when a race is won by another strategy, or when the client goes away */
+    signal?: AbortSignal;
+}
+
+/**
+ * - parallel: raced first (fast, cheap fetches)
+ * - local: tried when the parallel tier fails, before any third-party service (e.g. headless rendering)
+ * - fallback: raced when the local tier fails (slower third-party services)
+ * - manual: only used when requested explicitly or by special-case routing
+ */
+export type StrategyTier = "parallel" | "local" | "fallback" | "manual";
+
+/**
+ * Returns a rejection reason, or undefined when the result is acceptable
+ */
+export type StrategyValidator = (result: StrategyResult, url: string) => string | undefined;
+
+export interface StrategyDescriptor {
+    name: string;
+    /** Human readable name for UIs */
+    label: string;
+    tier: StrategyTier;
+    /** Whether the strategy yields raw HTML or ready-made Markdown */
+    output: "html" | "markdown";
+    /** Per-attempt deadline in milliseconds (enforced through the context signal) */
+    timeout: number;
+    /** Applied when the strategy takes part in a race; explicit requests skip them */
+    validators?: StrategyValidator[];
+    fetch(url: string, context: StrategyContext): Promise<StrategyResult>;
+}
+
+const registry = new Map<string, StrategyDescriptor>();
+
+/**
+ * Register a strategy (replaces an existing one with the same name)
+ */
+export function registerStrategy(descriptor: StrategyDescriptor): void {
+    if (registry.has(descriptor.name)) {
+        console.warn(`[Registry] Replacing strategy: ${descriptor.name}`);
+    }
+    registry.set(descriptor.name, descriptor);
+}
+
+export function getStrategy(name: string): StrategyDescriptor | undefined {
+    return registry.get(name);
+}
+
+export function isRegisteredStrategy(name: string): boolean {
+    return registry.has(name);
+}
+
+/**
+ * List registered strategies in registration order, optionally filtered by tier
+ */
+export function listStrategies(tier?: StrategyTier): StrategyDescriptor[] {
+    const all = [...registry.values()];
+    return tier ? all.filter((d) => d.tier === tier) : all;
+}
+
+export function getStrategyNames(tier?: StrategyTier): string[] {
+    return listStrategies(tier).map((d) => d.name);
+}
+
+/**
+ * Run the descriptor's validators and return the first rejection reason
+ */
+export function validateResult(descriptor: StrategyDescriptor, result: StrategyResult, url: string): string | undefined {
+    for (const validator of descriptor.validators ?? []) {
+        const reason = validator(result, url);
+        if (reason) return reason;
+    }
+    return undefined;
+}
+
+/**
+ * Load extra strategy modules (e.g. in-house fetchers) by specifier.
+ * Each module must export `descriptor` or `descriptors`.
+ */
+export async function loadStrategyModules(specifiers: string[]): Promise<void> {
+    for (const specifier of specifiers) {
+        try {
+            const mod = await import(specifier);
+            const descriptors: StrategyDescriptor[] = mod.descriptors ?? (mod.descriptor ? [mod.descriptor] : []);
+            if (descriptors.length === 0) {
+                console.warn(`[Registry] ${specifier} exports no strategy descriptor`);
+            }
+            descriptors.forEach(registerStrategy);
+            console.log(`[Registry] Loaded ${descriptors.map((d) => d.name).join(", ")} from ${specifier}`);
+        } catch (error) {
+            console.error(`[Registry] Failed to load ${specifier}:`, error);
+        }
+    }
+}
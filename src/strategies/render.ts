@@ -0,0 +1,74 @@
+/**
+ * Local Rendering Strategy
+ * Runs the page's JavaScript in a headless browser so client-rendered (SPA)
+ * sites convert without sending the URL to a third-party reader service.
+ *
+ * Enabled when RENDER_CDP_URL points at a Chrome DevTools endpoint. Other
+ * runtimes can be plugged in by registering a strategy named "render" through
+ * STRATEGY_MODULES.
+ */
+
+import type { StrategyContext, StrategyDescriptor, StrategyResult } from "./registry.ts";
+import { FALLBACK_HTML_VALIDATORS } from "./validators.ts";
+import { getCdpEndpoint, renderWithCdp } from "../render/cdp.ts";
+import { findRule } from "../rules.ts";
+import { readEnv } from "../utils.ts";
+
+const RENDER_TIMEOUT_MS = Number(readEnv("RENDER_TIMEOUT") || 30) * 1000;
+// Leave time to snapshot the DOM before the strategy timeout fires, but always wait a little
+const RENDER_MAX_WAIT_MS = Math.max(RENDER_TIMEOUT_MS - 5000, 1000);
+
+/**
+ * Whether a rendering backend is configured
+ */
+export function isRenderConfigured(): boolean {
+    return getCdpEndpoint() !== undefined;
+}
+
+export async function fetchWithRender(url: string, context: StrategyContext = {}): Promise<StrategyResult> {
+    try {
+        const { html, finalUrl, status } = await renderWithCdp(url, {
+            headers: context.headers,
+            maxWait: RENDER_MAX_WAIT_MS,
+            waitForSelector: findRule(url)?.renderWaitFor,
+            signal: context.signal,
+        });
+
+        if (status !== undefined && status >= 400) {
+            return {
+                success: false,
+                error: `HTTP ${status}`,
+                strategy: "render",
+                status,
+            };
+        }
+
+        if (finalUrl !== url) {
+            console.log(`[Render] ${url} ended up at ${finalUrl}`);
+        }
+
+        return {
+            success: true,
+            html,
+            strategy: "render",
+            status,
+            finalUrl,
+        };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+            strategy: "render",
+        };
+    }
+}
+
+export const descriptor: StrategyDescriptor = {
+    name: "render",
+    label: "Headless Browser",
+    tier: "local",
+    output: "html",
+    timeout: RENDER_TIMEOUT_MS,
+    validators: FALLBACK_HTML_VALIDATORS,
+    fetch: fetchWithRender,
+};
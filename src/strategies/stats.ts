@@ -0,0 +1,225 @@
+/**
+ * Adaptive Strategy Statistics
+ * Learns per-domain success rate and latency for each strategy and uses them
+ * to order and prune the racing tiers.
+ *
+ * Persistence (STATS_BACKEND):
+ * - memory: process lifetime only (default)
+ * - kv: Deno KV, one entry per domain
+ * - file: a single JSON file at STATS_FILE
+ */
+
+import { readEnv } from "../utils.ts";
+
+export interface StrategyStats {
+    attempts: number;
+    successes: number;
+    /** Exponential moving average of success (0..1), reacts faster than the lifetime ratio */
+    recentSuccess: number;
+    /** Exponential moving average of latency in milliseconds */
+    avgLatencyMs: number;
+    lastUsed: number;
+}
+
+export type DomainStats = Record<string, StrategyStats>;
+
+export interface RacePlan {
+    /** Strategy tried on its own before racing the rest */
+    preferred?: string;
+    /** Remaining strategies, best first */
+    ordered: string[];
+    /** Strategies left out because they keep failing on this domain */
+    pruned: string[];
+}
+
+const EMA_ALPHA = 0.2;
+const MIN_SAMPLES = 5;          // attempts before a strategy's stats are trusted
+const PREFER_THRESHOLD = 0.8;   // recent success needed to try a strategy alone first
+const PRUNE_THRESHOLD = 0.1;    // recent success below which a strategy is dropped
+const EXPLORE_RATE = 0.1;       // chance to race everything anyway so stats can recover
+const FLUSH_DELAY = 5000;
+const KV_PREFIX = "strategy-stats";
+
+const stats = new Map<string, DomainStats>();
+const dirty = new Set<string>();
+let flushTimer: ReturnType<typeof setTimeout> | undefined;
+let kv: Promise<Deno.Kv> | undefined;
+
+const backend = readEnv("STATS_BACKEND") || "memory";
+const statsFile = readEnv("STATS_FILE") || ".cache/strategy-stats.json";
+
+/**
+ * Normalize a URL or host into the domain key used for statistics
+ */
+export function domainOf(urlOrHost: string): string {
+    let host = urlOrHost;
+    try {
+        host = new URL(urlOrHost).hostname;
+    } catch {
+        // Already a host
+    }
+    return host.toLowerCase().replace(/^www\./, "");
+}
+
+/**
+ * Record the outcome of one strategy attempt
+ */
+export function recordOutcome(url: string, strategy: string, success: boolean, latencyMs: number): void {
+    const domain = domainOf(url);
+    const domainStats = stats.get(domain) ?? {};
+    const current = domainStats[strategy];
+    const outcome = success ? 1 : 0;
+
+    domainStats[strategy] = current
+        ? {
+            attempts: current.attempts + 1,
+            successes: current.successes + outcome,
+            recentSuccess: current.recentSuccess + EMA_ALPHA * (outcome - current.recentSuccess),
+            avgLatencyMs: current.avgLatencyMs + EMA_ALPHA * (latencyMs - current.avgLatencyMs),
+            lastUsed: Date.now(),
+        }
+        : {
+            attempts: 1,
+            successes: outcome,
+            recentSuccess: outcome,
+            avgLatencyMs: latencyMs,
+            lastUsed: Date.now(),
+        };
+
+    stats.set(domain, domainStats);
+    dirty.add(domain);
+    scheduleFlush();
+}
+
+/**
+ * Order and prune a tier of strategies for a URL based on learned statistics
+ */
+export function planRace(url: string, strategies: string[]): RacePlan {
+    const domainStats = stats.get(domainOf(url));
+    if (!domainStats || Math.random() < EXPLORE_RATE) {
+        return { ordered: strategies, pruned: [] };
+    }
+
+    const trusted = (name: string): StrategyStats | undefined => {
+        const s = domainStats[name];
+        return s && s.attempts >= MIN_SAMPLES ? s : undefined;
+    };
+
+    const pruned = strategies.filter((name) => {
+        const s = trusted(name);
+        return s !== undefined && s.recentSuccess < PRUNE_THRESHOLD;
+    });
+    // Never prune the whole tier
+    const remaining = pruned.length === strategies.length
+        ? strategies
+        : strategies.filter((name) => !pruned.includes(name));
+
+    // Unknown strategies rank in the middle so they still get tried
+    const score = (name: string): number => trusted(name)?.recentSuccess ?? 0.5;
+    const latency = (name: string): number => domainStats[name]?.avgLatencyMs ?? Infinity;
+    const ordered = [...remaining].sort((a, b) => score(b) - score(a) || latency(a) - latency(b));
+
+    const best = ordered[0];
+    const preferred = best && score(best) >= PREFER_THRESHOLD && ordered.length > 1 ? best : undefined;
+
+    return {
+        preferred,
+        ordered: preferred ? ordered.slice(1) : ordered,
+        pruned: remaining === strategies ? [] : pruned,
+    };
+}
+
+/**
+ * Get learned statistics, for one domain or all of them
+ */
+export function getStats(domain?: string): Record<string, DomainStats> {
+    if (domain) {
+        const key = domainOf(domain);
+        return stats.has(key) ? { [key]: stats.get(key)! } : {};
+    }
+    return Object.fromEntries(stats);
+}
+
+/**
+ * Forget learned statistics, for one domain or all of them
+ */
+export async function resetStats(domain?: string): Promise<void> {
+    const domains = domain ? [domainOf(domain)] : [...stats.keys()];
+    for (const key of domains) {
+        stats.delete(key);
+        dirty.add(key);
+    }
+    await flushStats();
+}
+
+/**
+ * Load persisted statistics (no-op for the memory backend)
+ */
+export async function initStats(): Promise<void> {
+    try {
+        if (backend === "kv") {
+            const store = await openKv();
+            for await (const entry of store.list<DomainStats>({ prefix: [KV_PREFIX] })) {
+                stats.set(String(entry.key[1]), entry.value);
+            }
+        } else if (backend === "file") {
+            const data = JSON.parse(await Deno.readTextFile(statsFile)) as Record<string, DomainStats>;
+            for (const [domain, domainStats] of Object.entries(data)) {
+                stats.set(domain, domainStats);
+            }
+        }
+        if (stats.size > 0) {
+            console.log(`[Stats] Loaded statistics for ${stats.size} domain(s) from ${backend}`);
+        }
+    } catch (error) {
+        if (!(error instanceof Deno.errors.NotFound)) {
+            console.warn("[Stats] Failed to load statistics:", error);
+        }
+    }
+}
+
+/**
+ * Write changed domains to the configured backend
+ */
+export async function flushStats(): Promise<void> {
+    clearTimeout(flushTimer);
+    flushTimer = undefined;
+    if (dirty.size === 0) return;
+
+    const domains = [...dirty];
+    dirty.clear();
+
+    try {
+        if (backend === "kv") {
+            const store = await openKv();
+            for (const domain of domains) {
+                const value = stats.get(domain);
+                if (value) {
+                    await store.set([KV_PREFIX, domain], value);
+                } else {
+                    await store.delete([KV_PREFIX, domain]);
+                }
+            }
+        } else if (backend === "file") {
+            const dir = statsFile.slice(0, statsFile.lastIndexOf("/"));
+            if (dir) await Deno.mkdir(dir, { recursive: true });
+            await Deno.writeTextFile(statsFile, JSON.stringify(Object.fromEntries(stats), null, 2));
+        }
+    } catch (error) {
+        console.warn("[Stats] Failed to persist statistics:", error);
+    }
+}
+
+function scheduleFlush(): void {
+    if (backend === "memory" || flushTimer) return;
+    flushTimer = setTimeout(() => {
+        flushStats();
+    }, FLUSH_DELAY);
+}
+
+function openKv(): Promise<Deno.Kv> {
+    if (!kv) {
+        kv = Deno.openKv(readEnv("STATS_KV_PATH"));
+    }
+    return kv;
+}
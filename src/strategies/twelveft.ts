@@ -4,10 +4,12 @@
  */
 
 import type { FetchResult } from "./googlebot.ts";
+import type { StrategyContext, StrategyDescriptor } from "./registry.ts";
+import { FALLBACK_HTML_VALIDATORS } from "./validators.ts";
 
 const TWELVEFT_PROXY = "https://12ft.io/proxy?q=";
 
-export async function fetchWith12ft(url: string): Promise<FetchResult> {
+export async function fetchWith12ft(url: string, context: StrategyContext = {}): Promise<FetchResult> {
     const proxyUrl = `${TWELVEFT_PROXY}${encodeURIComponent(url)}`;
 
     try {
@@ -18,6 +20,7 @@ export async function fetchWith12ft(url: string): Promise<FetchResult> {
                 "Accept-Language": "en-US,en;q=0.5",
                 "Referer": "https://12ft.io/",
             },
+            signal: context.signal,
         });
 
         if (!response.ok) {
@@ -25,6 +28,7 @@ export async function fetchWith12ft(url: string): Promise<FetchResult> {
                 success: false,
                 error: `12ft.io error: ${response.status} ${response.statusText}`,
                 strategy: "12ft",
+                status: response.status,
             };
         }
 
@@ -34,6 +38,7 @@ export async function fetchWith12ft(url: string): Promise<FetchResult> {
                 success: false,
                 error: `Invalid content type from 12ft: ${contentType}`,
                 strategy: "12ft",
+                status: response.status,
             };
         }
 
@@ -45,6 +50,7 @@ export async function fetchWith12ft(url: string): Promise<FetchResult> {
                 success: false,
                 error: "12ft.io rate limited or blocked",
                 strategy: "12ft",
+                status: response.status,
             };
         }
 
@@ -52,6 +58,7 @@ export async function fetchWith12ft(url: string): Promise<FetchResult> {
             success: true,
             html,
             strategy: "12ft",
+            status: response.status,
         };
     } catch (error) {
         return {
@@ -61,3 +68,13 @@ export async function fetchWith12ft(url: string): Promise<FetchResult> {
         };
     }
 }
+
+export const descriptor: StrategyDescriptor = {
+    name: "12ft",
+    label: "12ft.io",
+    tier: "fallback",
+    output: "html",
+    timeout: 20000,
+    validators: FALLBACK_HTML_VALIDATORS,
+    fetch: fetchWith12ft,
+};
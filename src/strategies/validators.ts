@@ -0,0 +1,59 @@
+/**
+ * Common Strategy Validators
+ * Building blocks for the `validators` list of a strategy descriptor
+ */
+
+import type { StrategyResult, StrategyValidator } from "./registry.ts";
+import { describeVerdict, detect, type DetectionVerdict, isGoogleErrorPage } from "../detection/mod.ts";
+
+/**
+ * Block/paywall verdict for a result's HTML; computed on first use and kept on the result
+ */
+export function verdictOf(result: StrategyResult, url: string): DetectionVerdict {
+    result.verdict ??= detect(result.html || "", { url, status: result.status, headers: result.headers });
+    return result.verdict;
+}
+
+/**
+ * Reject HTML that looks like an anti-bot wall, paywall or Google error page
+ */
+export const rejectBlockedHtml: StrategyValidator = (result, url) => {
+    const html = result.html || "";
+    const verdict = verdictOf(result, url);
+    if (verdict.blocked) return `Blocked (${describeVerdict(verdict, "blocked")})`;
+    if (verdict.paywalled) return `Paywall (${describeVerdict(verdict, "paywall")})`;
+    if (isGoogleErrorPage(html)) return "Google error page";
+    return undefined;
+};
+
+/**
+ * Reject HTML shorter than `min` characters
+ */
+export function minHtmlLength(min: number, reason = "Content too short"): StrategyValidator {
+    return (result) => (result.html || "").length < min ? reason : undefined;
+}
+
+/**
+ * Reject Markdown shorter than `min` characters
+ */
+export function minMarkdownLength(min: number): StrategyValidator {
+    return (result) => (result.markdown || "").length <= min ? "Markdown too short" : undefined;
+}
+
+// Validators for the parallel bot tier. Short HTML is likely an SPA shell, so we
+// reject it and let Promise.any wait for better strategies (like Jina).
+export const PARALLEL_HTML_VALIDATORS: StrategyValidator[] = [
+    rejectBlockedHtml,
+    minHtmlLength(10000, "Content likely incomplete (SPA shell)"),
+];
+
+// Validators for HTML returned by the fallback proxies (12ft, archive)
+export const FALLBACK_HTML_VALIDATORS: StrategyValidator[] = [
+    minHtmlLength(1000),
+    rejectBlockedHtml,
+];
+
+// Validators for services that return Markdown directly (Jina, Exa)
+export const MARKDOWN_VALIDATORS: StrategyValidator[] = [
+    minMarkdownLength(100),
+];
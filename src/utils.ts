@@ -1,6 +1,7 @@
 import {
     fetchWithStrategies,
     type Strategy,
+    type StrategyAttempt,
     type MultiStrategyResult
 } from "./strategies/mod.ts";
 
@@ -69,15 +70,20 @@ const fetchHtmlText = async (url: string): Promise<string> => {
 export interface FetchOptions {
     bypass?: boolean;
     strategy?: Strategy;
+    signal?: AbortSignal;
 }
 
 export interface FetchResponse {
     html?: string;
     markdown?: string;  // Direct markdown from Jina
+    pdf?: Uint8Array;   // Undecoded PDF document
+    finalUrl?: string;  // After redirects, when the strategy fetched the origin itself
     strategy: Strategy;
     success: boolean;
     error?: string;
     elapsed?: number;
+    attempts: StrategyAttempt[];
+    rule?: string;
 }
 
 /**
@@ -119,32 +125,130 @@ export const fetchHtmlWithStrategies = async (
     options: FetchOptions = {}
 ): Promise<FetchResponse> => {
     // @ts-ignore
-    const { bypass = false, strategy } = options;
+    const { bypass = false, strategy, signal } = options;
 
     // TODO: If we want to support custom strategy list injection, we need to update mod.ts
     // For now, we rely on mod.ts's internal logic.
 
     const result: MultiStrategyResult = await fetchWithStrategies(
         url,
-        { bypass, strategy }
+        { bypass, strategy, signal }
     );
 
     return {
         html: result.html,
         markdown: result.markdown,
+        pdf: result.pdf,
+        finalUrl: result.finalUrl,
         strategy: result.strategy,
         success: result.success,
         error: result.error,
         elapsed: result.elapsed,
+        attempts: result.attempts,
+        rule: result.rule,
     };
 };
 
+/**
+ * Read an environment variable, tolerating a missing --allow-env permission
+ */
+export function readEnv(name: string): string | undefined {
+    try {
+        return Deno.env.get(name) || undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+export interface LinkedSignal {
+    signal: AbortSignal;
+    /** True when the abort came from this signal's own timeout */
+    timedOut(): boolean;
+    /** Abort explicitly (e.g. once a race is won) */
+    abort(reason?: unknown): void;
+    /** Clear the timer and detach from the parent; always call when done */
+    dispose(): void;
+}
+
+/**
+ * Create an abort signal that follows `parent` and optionally times out.
+ * Unlike AbortSignal.timeout/any, the timer is cleared on dispose so nothing lingers.
+ */
+export function createLinkedSignal(parent?: AbortSignal, timeoutMs?: number): LinkedSignal {
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const onParentAbort = () => controller.abort(parent?.reason);
+    if (parent?.aborted) {
+        onParentAbort();
+    } else {
+        parent?.addEventListener("abort", onParentAbort, { once: true });
+    }
+
+    if (timeoutMs !== undefined && !controller.signal.aborted) {
+        timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort(new DOMException(`Timed out after ${timeoutMs}ms`, "TimeoutError"));
+        }, timeoutMs);
+    }
+
+    return {
+        signal: controller.signal,
+        timedOut: () => timedOut,
+        abort: (reason?: unknown) => controller.abort(reason),
+        dispose: () => {
+            clearTimeout(timer);
+            parent?.removeEventListener("abort", onParentAbort);
+        },
+    };
+}
+
+/**
+ * Thrown when a body grows past the byte limit it is read with
+ */
+export class BodyTooLargeError extends Error {
+    constructor(readonly limit: number) {
+        super(`Body too large (limit ${limit} bytes)`);
+        this.name = "BodyTooLargeError";
+    }
+}
+
+/**
+ * Read a stream into memory, cancelling it as soon as it grows past maxBytes.
+ * Declared lengths can be missing or wrong, so the limit applies to the bytes actually read.
+ */
+export async function readLimited(stream: ReadableStream<Uint8Array> | null, maxBytes: number): Promise<Uint8Array<ArrayBuffer>> {
+    if (!stream) return new Uint8Array();
+    const reader = stream.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        size += value.length;
+        if (size > maxBytes) {
+            await reader.cancel();
+            throw new BodyTooLargeError(maxBytes);
+        }
+        chunks.push(value);
+    }
+
+    const bytes = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return bytes;
+}
+
 /**
  * Add CORS headers to response
  */
 const addCorsHeaders = (headers: Headers, domain = "*"): Headers => {
     headers.set("Access-Control-Allow-Origin", domain);
-    headers.set("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    headers.set("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
     headers.set("Access-Control-Allow-Headers", "Content-Type");
     return headers;
 };